@@ -1,17 +1,45 @@
 /**
  * Menu Management Scripts
+ * Record and output types come from types/menu.d.ts, generated from scripts/menu/schema.ts
+ *
+ * Environment:
+ *   YAO_MENU_ALLOW_ANONYMOUS  "1"/"true"/"yes" lets calls without auth info (`yao run`)
+ *                             write menus with full rights; unset, they get 401. Never
+ *                             set it on a server that serves the API.
+ *   YAO_MENU_DEFAULT_LOCALE   Fallback locale (default "en")
+ *   YAO_MENU_LOCALES          Locales checked by Translations, comma-separated
  */
 
-import { Exception, Process } from "@yao/runtime";
+import { Exception, FS, Process, Query, Store } from "@yao/runtime";
+import { validateMenuSchema } from "@scripts/menu/schema";
+import { parseCsv, readEnv } from "@scripts/utils";
+import type {
+  MenuConditions,
+  MenuIcon,
+  MenuItem,
+  MenuLink,
+  MenuOutput,
+  MenuRecord,
+  MenuTarget,
+} from "../types/menu";
 
 // Declare global Authorized function (provided by Yao runtime)
 declare function Authorized(): AuthorizedInfo | null;
 
+// Declare global All/Race functions (provided by Yao runtime, see ai-docs/concurrent.md)
+declare function All(
+  tasks: { process: string; args?: any[] }[]
+): { data: any; error?: string; index: number }[];
+declare function Race(
+  tasks: { process: string; args?: any[] }[]
+): { data: any; error?: string; index: number }[];
+
 /** Authorized info structure */
 interface AuthorizedInfo {
   user_id?: string | number;
   team_id?: string | number;
   scope?: string;
+  scopes?: string[];
   constraints?: {
     owner_only?: boolean;
     creator_only?: boolean;
@@ -21,53 +49,351 @@ interface AuthorizedInfo {
   };
 }
 
-/** Menu item structure (database) */
-interface MenuRecord {
-  id?: number;
+/** A menu search hit */
+interface MenuSearchResult {
+  menu_id: string;
+  name: string;
+  description?: string;
+  icon?: MenuIcon;
+  type: "items" | "setting" | "quick";
+  link?: MenuLink;
+  breadcrumb: string[]; // Localized parent names, root first
+  score: number;
+  matched_locale: string; // Locale variant that matched best
+}
+
+/** Caller's roles, granted features and context, used for menu visibility */
+interface MenuAccess {
+  roles: string[];
+  features: Set<string>;
+  allFeatures: boolean; // Granted by a wildcard feature such as "*:*:*"
+  userType: string | null; // type_id of the caller (__yao.user.type)
+  flags: Set<string>; // Enabled app + team feature flags
+  now: number; // Evaluation time (ms)
+}
+
+/** Per-user menu personalization, layered over the shared menu rows */
+interface MenuOverlay {
+  pinned: string[]; // menu_ids pinned into the quick group, in order
+  hidden: string[]; // menu_ids hidden (with their subtrees)
+  order: Record<string, string[]>; // sibling group key -> ordered menu_ids
+  quick_order?: "sort" | "usage"; // usage: quick group ordered by recent clicks
+}
+
+/** Menu usage report */
+interface MenuUsageReport {
+  from: string;
+  to: string;
+  days: number;
+  total: number; // Clicks in the window
+  top: { menu_id: string; name: string; clicks: number; users: number }[];
+  unused: { menu_id: string; name: string }[]; // Clickable items with no clicks
+  trend: { day: string; clicks: number }[]; // Clicks per day (YYYY-MM-DD)
+}
+
+/** A single menu tree integrity problem */
+interface MenuIssue {
+  menu_id: string;
+  code: "self_parent" | "cycle" | "orphan" | "type_mismatch" | "too_deep";
+  message: string;
+}
+
+/** Menu tree validation report */
+interface MenuValidationReport {
+  valid: boolean;
+  total: number;
+  issues: MenuIssue[];
+}
+
+/** Menu node in the versioned export format (full record, nested children) */
+interface MenuExportNode {
   menu_id: string;
-  parent?: string | null; // Parent menu_id (string reference)
-  name: Record<string, string>; // i18n: { "en": "Dashboard", "zh-cn": "数据看板" }
+  parent?: string | null; // Only set on root nodes whose parent was not exported
+  name: Record<string, string>;
   description?: Record<string, string> | null;
-  icon?: string | { name: string; size?: number } | null;
+  icon?: MenuIcon | null;
   path?: string | null;
+  target?: MenuTarget | null;
   type: "items" | "setting" | "quick";
   sort?: number;
   status?: "enabled" | "disabled";
   public?: boolean;
   share?: "private" | "team";
+  system?: boolean;
+  roles?: string[] | null;
+  features?: string[] | null;
+  conditions?: MenuConditions | null;
   extra?: Record<string, any> | null;
-  // Permission fields
-  __yao_created_by?: string | number;
-  __yao_team_id?: string | number;
+  children?: MenuExportNode[];
 }
 
-/** Menu item structure (output with children) */
-interface MenuItem {
-  name: string;
-  icon?: string | { name: string; size?: number };
-  path?: string;
-  sort?: number;
-  children?: MenuItem[];
+/** Versioned, lossless menu export */
+interface MenuExport {
+  version: number;
+  exported_at: string;
+  menus: MenuExportNode[];
+}
+
+/** Per-menu change produced by an import */
+interface MenuChange {
+  menu_id: string;
+  action: "create" | "update" | "unchanged";
+  fields?: Record<string, { before: any; after: any }>;
+}
+
+/** Import error for a single payload node */
+interface MenuImportError {
+  path: string; // JSON path of the node in the payload, e.g. $.items[0].children[2]
+  menu_id?: string;
+  message: string;
+  code: number;
+}
+
+/** Import result */
+interface MenuImportResult {
+  success: number;
+  failed: number;
+  created?: number;
+  updated?: number;
+  unchanged?: number;
+  dry_run?: boolean;
+  rolled_back?: boolean;
+  changes?: MenuChange[];
+  errors?: MenuImportError[];
+}
+
+/** Menu revision (one row of models.menu.revision) */
+interface MenuRevision {
+  id?: number;
+  menu_id: string;
+  action:
+    "create" | "update" | "save" | "delete" | "import" | "reset" | "restore";
+  batch?: string | null;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  actor_id?: string | null;
+  team_id?: string | null;
+  created_at?: string;
+}
+
+/** Caller's menu scopes; system is set for trusted calls without auth info */
+interface MenuGrant {
+  authInfo: AuthorizedInfo | null;
+  scopes: string[];
+  system: boolean;
+}
+
+/** Named menu tree that can be applied to a team */
+interface MenuTemplate {
+  id?: number;
+  template_id: string;
+  name: Record<string, string>;
+  description?: Record<string, string> | null;
+  menus: MenuExportNode[];
 }
 
-/** Menu output structure (matches flow output) */
-interface MenuOutput {
-  items: MenuItem[];
-  setting: MenuItem[];
-  quick: MenuItem[];
+/** Result of cloning a menu tree into a team */
+interface MenuCloneResult {
+  team_id: string;
+  created: number;
+  menu_ids: Record<string, string>; // source menu_id -> new menu_id
 }
 
+/** How Delete treats the children of a deleted menu */
+type MenuDeleteStrategy = "block" | "cascade" | "reparent";
+
+/** What a menu Reset deletes, recreates and overwrites */
+interface MenuResetReport {
+  preview: boolean;
+  delete: string[]; // system menus that are soft-deleted
+  recreate: string[]; // seed menus that are reimported
+  overwritten: { menu_id: string; fields: string[] }[]; // customised system menus
+}
+
+/** Badge source configured in a menu record's extra.badge */
+interface MenuBadgeSource {
+  process: string; // Process returning the badge value, e.g. a running job count
+  args?: any[];
+  ttl?: number; // Cache TTL in seconds
+  timeout?: number; // Evaluation timeout in milliseconds
+}
+
+/** Fallback locale; override with YAO_MENU_DEFAULT_LOCALE */
+const DEFAULT_LOCALE = "en";
+
+/** Locales checked by Translations(); override with YAO_MENU_LOCALES (comma-separated) */
+const SUPPORTED_LOCALES = ["en", "zh-cn"];
+
+/** Well-formed (normalized) BCP-47 tag; anything else in a locale argument is ignored */
+const LOCALE_TAG = /^[a-z]{2,3}(-[a-z0-9]{1,8})*$/;
+
+/** Region used when only a language is requested and several regions exist */
+const PREFERRED_REGIONS: Record<string, string> = {
+  en: "en-us",
+  zh: "zh-cn",
+  pt: "pt-br",
+  es: "es-es",
+  fr: "fr-fr",
+  de: "de-de",
+};
+
+/** Role with unrestricted menu visibility */
+const ROOT_ROLE = "system:root";
+const ADMIN_ROLE = "system:admin";
+
+/** Cache key and TTL (seconds) for the parsed feature/alias definitions */
+const FEATURE_CACHE_KEY = "menu:features:definitions";
+const FEATURE_CACHE_TTL = 300;
+const SCOPE_ALIAS_CACHE_KEY = "menu:scopes:aliases";
+
+/** Menu table name (used for raw queries on soft-deleted rows) */
+const MENU_TABLE = "menu";
+
+/** Seed file defining the system menus (relative to the app root) */
+const MENU_SEED_FILE = "seeds/menus.csv";
+
+/**
+ * System menu_ids shipped before the `system` flag existed
+ * Older installs have these rows unflagged (and some are no longer seeded),
+ * so Reset keeps treating them as system menus
+ */
+const LEGACY_SYSTEM_MENU_IDS = [
+  "items_chat",
+  "items_assistants",
+  "items_mission_control",
+  "items_api_keys",
+  "items_kb",
+  "setting_profile",
+  "setting_main",
+  "setting_team",
+  "setting_api_keys",
+  "setting_usage",
+];
+
+/** Current export format version */
+const MENU_EXPORT_VERSION = 1;
+
+/** Menu record fields carried by export/import (everything except keys and permission fields) */
+const MENU_FIELDS = [
+  "parent",
+  "name",
+  "description",
+  "icon",
+  "path",
+  "target",
+  "type",
+  "sort",
+  "status",
+  "public",
+  "share",
+  "system",
+  "roles",
+  "features",
+  "conditions",
+  "extra",
+];
+
+/** JSON columns of the menu model (raw SQL rows return them as text) */
+const MENU_JSON_FIELDS = [
+  "name",
+  "description",
+  "icon",
+  "target",
+  "roles",
+  "features",
+  "conditions",
+  "extra",
+];
+
+/** SUI pages of suis/web.sui.yao (storage root + template, public root) */
+const SUI_TEMPLATE_ROOT = "data/templates/default";
+const SUI_PUBLIC_ROOT = "/";
+
+/** Gap between sort values written by Move/Reorder */
+const MENU_SORT_STEP = 10;
+
+/** Maximum menu nesting depth (root items are depth 1) */
+const MAX_MENU_DEPTH = 3;
+
+/** Environment variables readable by conditions.env */
+const MENU_ENV_NAMES = ["YAO_ENV"];
+const MENU_ENV_PREFIX = "YAO_MENU_";
+
+/** Badge evaluation defaults: cache TTL (seconds) and timeout (milliseconds) */
+const BADGE_CACHE_TTL = 30;
+const BADGE_TIMEOUT = 500;
+
+/** Processes allowed as badge sources (lower-case name prefixes) */
+const BADGE_PROCESS_PREFIXES = ["scripts.badges."];
+
+/** Resolved menu cache: store, TTL (seconds) and generation key bumped on every write */
+const MENU_CACHE_STORE = "__yao.cache";
+const MENU_CACHE_TTL = 30;
+const MENU_CACHE_GENERATION_KEY = "menu:tree:generation";
+
+/** Persistent store holding per-user menu overlays and menu feature flags */
+const OVERLAY_STORE = "__yao.store";
+const CLICK_TABLE = "menu_click";
+const USAGE_WINDOW_DAYS = 30;
+
 /**
- * Get menu data for a specific locale (all enabled menus, no permission filter)
- * @param locale The locale (e.g., "en", "zh-cn")
+ * Get menu data for a specific locale
+ * Menus are filtered by login context, then by the caller's roles and features.
+ * The result is cached per (team, user, locale) and invalidated by every menu write.
+ * @param locale Locale tag or Accept-Language value, wins over the request header
+ * @param acceptLanguage The request's Accept-Language header ($header.Accept-Language);
+ *   without either, the caller's profile locale is used
  * @returns Menu output with items, setting, quick
  * @test yao run scripts.menu.Get en
  * @test yao run scripts.menu.Get zh-cn
+ * @test yao run scripts.menu.Get "zh-TW,zh;q=0.9,en;q=0.8"
+ * @test yao run scripts.menu.Get "" "zh-TW,zh;q=0.9"
  */
-function Get(locale: string = "en"): MenuOutput {
+function Get(locale: string = "", acceptLanguage: string = ""): MenuOutput {
   // Get authorized info
   const authInfo = Authorized() as AuthorizedInfo | null;
+  const locales = resolveLocales(locale, authInfo, acceptLanguage);
+
+  const cache = new Store(MENU_CACHE_STORE);
+  return cache.GetSet(
+    menuCacheKey(authInfo, locales),
+    () => resolveMenu(authInfo, locales),
+    MENU_CACHE_TTL
+  );
+}
+
+/**
+ * Check whether the caller's menu changed since a known version
+ * Scripts have no channel to push to connected clients, so clients poll this
+ * (GET /api/app/menu/changes) with the version from their last Get and dispatch
+ * the returned app.menu.reload action when the menu changed.
+ * @param version The version returned by the last Get
+ * @param locale Locale tag or Accept-Language value, as passed to Get
+ * @param acceptLanguage The request's Accept-Language header, as passed to Get
+ * @returns Current version and the action to run, null if unchanged
+ * @test yao run scripts.menu.Changes 1a2b3c en
+ */
+function Changes(
+  version: string,
+  locale: string = "",
+  acceptLanguage: string = ""
+): { changed: boolean; version: string; action: { name: string } | null } {
+  const current = Get(locale, acceptLanguage);
+  const changed = current.version !== version;
+  return {
+    changed,
+    version: current.version || "",
+    action: changed ? { name: "app.menu.reload" } : null,
+  };
+}
 
+/**
+ * Resolve the caller's menu tree (uncached)
+ */
+function resolveMenu(
+  authInfo: AuthorizedInfo | null,
+  locales: string[]
+): MenuOutput {
   // Build auth filters based on login context
   const wheres = buildAuthFilters(authInfo);
 
@@ -77,7 +403,209 @@ function Get(locale: string = "en"): MenuOutput {
     orders: [{ column: "sort", option: "asc" }],
   }) as MenuRecord[];
 
-  return buildMenuTree(allMenus, locale);
+  // Drop menus the caller's roles or features do not grant
+  const access = resolveMenuAccess(authInfo);
+  const visibleMenus = filterMenusByAccess(allMenus, access);
+
+  // Merge the caller's personal overlay (pin / hide / reorder)
+  const overlay = authInfo ? loadOverlay(authInfo) : null;
+  if (overlay?.quick_order === "usage") {
+    overlay.order.quick = quickOrderByUsage(authInfo!);
+  }
+
+  // Evaluate dynamic badges (cached per caller, failures are dropped)
+  const badges = resolveBadges(visibleMenus, authInfo);
+
+  const output = buildMenuTree(visibleMenus, locales, overlay, badges);
+  output.version = hashString(stableStringify(output));
+  return output;
+}
+
+// ============ Search ============
+
+/**
+ * Search menus for a command palette
+ * Names and descriptions are fuzzy-matched in every locale; results are ranked
+ * best first and carry their breadcrumb (parent names). Visibility follows Get:
+ * login context, roles/features, display conditions and the caller's hidden items.
+ * @param query Search text
+ * @param locale Locale for the returned names (as passed to Get)
+ * @param limit Maximum number of results
+ * @returns Ranked matches
+ * @test yao run scripts.menu.Search assist en
+ * @test yao run scripts.menu.Search 助手 zh-cn
+ */
+function Search(
+  query: string,
+  locale: string = "",
+  limit: number = 20
+): MenuSearchResult[] {
+  const needle = normalizeSearchText(query || "");
+  if (!needle) {
+    return [];
+  }
+
+  const authInfo = Authorized() as AuthorizedInfo | null;
+  const locales = resolveLocales(locale, authInfo);
+
+  const allMenus = Process("models.menu.Get", {
+    wheres: buildAuthFilters(authInfo),
+    orders: [{ column: "sort", option: "asc" }],
+  }) as MenuRecord[];
+  let menus = filterMenusByAccess(allMenus, resolveMenuAccess(authInfo));
+
+  // Items the caller hid (with their subtrees) are not offered either
+  const overlay = authInfo ? loadOverlay(authInfo) : null;
+  if (overlay && overlay.hidden.length > 0) {
+    const hidden = collectDescendants(menus, overlay.hidden);
+    menus = menus.filter((menu) => !hidden.has(menu.menu_id));
+  }
+
+  const byId = new Map<string, MenuRecord>();
+  menus.forEach((menu) => byId.set(menu.menu_id, menu));
+
+  const results: MenuSearchResult[] = [];
+  menus.forEach((menu) => {
+    // Best match over all locale variants; descriptions weigh half
+    let score = 0;
+    let matched = "";
+    const candidates: [Record<string, string> | null | undefined, number][] = [
+      [menu.name, 1],
+      [menu.description, 0.5],
+    ];
+    candidates.forEach(([values, weight]) => {
+      Object.entries(values || {}).forEach(([lang, text]) => {
+        const value = scoreSearchMatch(needle, normalizeSearchText(text));
+        // Prefer a hit in the caller's own locale on ties
+        const bonus = locales.includes(lang.toLowerCase()) ? 1 : 0;
+        if (value > 0 && value * weight + bonus > score) {
+          score = value * weight + bonus;
+          matched = lang;
+        }
+      });
+    });
+    if (score <= 0) return;
+
+    const breadcrumb: string[] = [];
+    const seen = new Set<string>([menu.menu_id]);
+    let parent = menu.parent ? byId.get(menu.parent) : undefined;
+    while (parent && !seen.has(parent.menu_id)) {
+      seen.add(parent.menu_id);
+      breadcrumb.unshift(localize(parent.name, locales));
+      parent = parent.parent ? byId.get(parent.parent) : undefined;
+    }
+
+    const result: MenuSearchResult = {
+      menu_id: menu.menu_id,
+      name: localize(menu.name, locales),
+      type: menu.type,
+      breadcrumb,
+      score: Math.round(score * 100) / 100,
+      matched_locale: matched,
+    };
+    const description = localize(menu.description, locales);
+    if (description) result.description = description;
+    if (menu.icon) result.icon = menu.icon;
+    const link = resolveMenuLink(menu);
+    if (link) result.link = link;
+    results.push(result);
+  });
+
+  results.sort(
+    (a, b) => b.score - a.score || a.breadcrumb.length - b.breadcrumb.length
+  );
+  return results.slice(0, Math.max(1, limit));
+}
+
+/**
+ * Lowercase, trim and strip diacritics for matching
+ */
+function normalizeSearchText(text: string): string {
+  return String(text || "")
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .trim();
+}
+
+/**
+ * Score how well a query matches a text (0 = no match, 100 = exact)
+ * exact > prefix > word prefix > substring > in-order characters (denser is better)
+ */
+function scoreSearchMatch(needle: string, text: string): number {
+  if (!text) return 0;
+  if (text === needle) return 100;
+  if (text.startsWith(needle)) return 80;
+  if (text.split(/[\s\-_/]+/).some((word) => word.startsWith(needle))) {
+    return 70;
+  }
+  if (text.includes(needle)) return 60;
+
+  // Subsequence: every query character appears in order
+  let position = -1;
+  let first = -1;
+  for (const char of needle) {
+    if (char === " ") continue;
+    position = text.indexOf(char, position + 1);
+    if (position < 0) return 0;
+    if (first < 0) first = position;
+  }
+  const span = position - first + 1;
+  return 10 + 30 * (needle.replace(/ /g, "").length / span);
+}
+
+// ============ Menu Cache ============
+
+/**
+ * Cache key for a caller's resolved menu, scoped to the current cache generation
+ */
+function menuCacheKey(
+  authInfo: AuthorizedInfo | null,
+  locales: string[]
+): string {
+  const caller = authInfo
+    ? `${authInfo.team_id || "personal"}:${authInfo.user_id || ""}`
+    : "guest";
+  return `menu:tree:${menuCacheGeneration()}:${caller}:${locales.join(",")}`;
+}
+
+/**
+ * Current cache generation; a fresh one is started if the store lost it,
+ * so entries from before an eviction can never be served
+ */
+function menuCacheGeneration(): string {
+  const cache = new Store(MENU_CACHE_STORE);
+  const generation = cache.Get(MENU_CACHE_GENERATION_KEY);
+  if (generation) {
+    return generation;
+  }
+  return invalidateMenuCache();
+}
+
+/**
+ * Invalidate all cached menu trees by starting a new cache generation
+ * Old entries are never read again and expire with their TTL
+ * @returns The new generation
+ */
+function invalidateMenuCache(): string {
+  const generation = `${Date.now()}${Math.floor(Math.random() * 1000)}`;
+  try {
+    new Store(MENU_CACHE_STORE).Set(MENU_CACHE_GENERATION_KEY, generation);
+  } catch (e) {
+    console.error("Failed to invalidate menu cache", e);
+  }
+  return generation;
+}
+
+/**
+ * Short, stable hash of a string (djb2, base 36)
+ */
+function hashString(value: string): string {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
 }
 
 /**
@@ -88,9 +616,15 @@ function Get(locale: string = "en"): MenuOutput {
  *
  * Key insight: Same user with team_id=null vs team_id=xxx are TWO different login contexts.
  * Personal records have __yao_team_id = NULL, team records have __yao_team_id = team_id.
+ * @param includeDisabled Also match disabled menus (used by Export)
  */
-function buildAuthFilters(authInfo: AuthorizedInfo | null): any[] {
-  const wheres: any[] = [{ column: "status", value: "enabled" }];
+function buildAuthFilters(
+  authInfo: AuthorizedInfo | null,
+  includeDisabled: boolean = false
+): any[] {
+  const wheres: any[] = includeDisabled
+    ? []
+    : [{ column: "status", value: "enabled" }];
 
   // No auth info - only public menus
   if (!authInfo) {
@@ -129,13 +663,341 @@ function buildAuthFilters(authInfo: AuthorizedInfo | null): any[] {
   return wheres;
 }
 
+// ============ Role & Feature Visibility ============
+
+/**
+ * Resolve the caller's roles (user role + team member role) and granted features
+ * Lookups that fail (e.g. tables not migrated yet) yield an empty access set
+ */
+function resolveMenuAccess(authInfo: AuthorizedInfo | null): MenuAccess {
+  const access: MenuAccess = {
+    roles: [],
+    features: new Set<string>(),
+    allFeatures: false,
+    userType: null,
+    flags: new Set<string>(loadFlags(authInfo?.team_id)),
+    now: Date.now(),
+  };
+
+  if (!authInfo || !authInfo.user_id) {
+    return access;
+  }
+
+  try {
+    const users = Process("models.__yao.user.Get", {
+      select: ["role_id", "type_id"],
+      wheres: [{ column: "user_id", value: authInfo.user_id }],
+      limit: 1,
+    });
+    if (users && users.length > 0) {
+      if (users[0].role_id) access.roles.push(users[0].role_id);
+      access.userType = users[0].type_id || null;
+    }
+
+    if (authInfo.team_id) {
+      const members = Process("models.__yao.member.Get", {
+        select: ["role_id"],
+        wheres: [
+          { column: "team_id", value: authInfo.team_id },
+          { column: "user_id", value: authInfo.user_id },
+        ],
+        limit: 1,
+      });
+      if (members && members.length > 0 && members[0].role_id) {
+        access.roles.push(members[0].role_id);
+      }
+    }
+  } catch (e) {
+    console.error("Failed to resolve menu roles", e);
+    return access;
+  }
+
+  // Expand role features (and feature aliases) into concrete features
+  const definitions = loadFeatureDefinitions();
+  const expand = (name: string, seen: Set<string>) => {
+    if (seen.has(name)) return;
+    seen.add(name);
+    if (name.split(":").every((part) => part === "*")) {
+      access.allFeatures = true;
+      return;
+    }
+    const alias = definitions.aliases[name];
+    if (Array.isArray(alias)) {
+      alias.forEach((item) => expand(item, seen));
+      return;
+    }
+    access.features.add(name);
+  };
+
+  access.roles.forEach((role) => {
+    const features = definitions.roles[role];
+    if (Array.isArray(features)) {
+      const seen = new Set<string>();
+      features.forEach((feature) => expand(feature, seen));
+    }
+  });
+
+  return access;
+}
+
+/**
+ * Load role -> features and alias -> features maps from openapi/features
+ * Parsed definitions are cached in the process-level store
+ */
+function loadFeatureDefinitions(): {
+  roles: Record<string, string[]>;
+  aliases: Record<string, string[]>;
+} {
+  const cache = new Store("__yao.cache");
+  return cache.GetSet(
+    FEATURE_CACHE_KEY,
+    () => ({
+      roles: readYamlFile("openapi/features/features.yml"),
+      aliases: readYamlFile("openapi/features/alias.yml"),
+    }),
+    FEATURE_CACHE_TTL
+  );
+}
+
+/**
+ * Read a YAML file from the app root, returning {} if missing or invalid
+ */
+function readYamlFile(path: string): Record<string, any> {
+  try {
+    const fs = new FS("app");
+    if (!fs.Exists(path)) {
+      return {};
+    }
+    const content = fs.ReadFile(path);
+    const data = Process("text.ExtractJSON", "```yaml\n" + content + "\n```");
+    return data && typeof data === "object" ? data : {};
+  } catch (e) {
+    console.error(`Failed to read ${path}`, e);
+    return {};
+  }
+}
+
+/**
+ * Check whether the caller may see a menu record
+ * - roles: any of the listed roles (system:root sees everything)
+ * - features: every listed feature must be granted
+ */
+function canAccessMenu(menu: MenuRecord, access: MenuAccess): boolean {
+  if (access.roles.includes(ROOT_ROLE)) {
+    return true;
+  }
+
+  const roles = Array.isArray(menu.roles) ? menu.roles : [];
+  if (roles.length > 0 && !roles.some((role) => access.roles.includes(role))) {
+    return false;
+  }
+
+  const features = Array.isArray(menu.features) ? menu.features : [];
+  if (access.allFeatures || features.length === 0) {
+    return true;
+  }
+  return features.every((feature) => access.features.has(feature));
+}
+
+/**
+ * Check a menu's display conditions (env, flags, date window, user type)
+ * Unlike roles, conditions also apply to system:root
+ */
+function matchesConditions(menu: MenuRecord, access: MenuAccess): boolean {
+  const conditions = menu.conditions;
+  if (!conditions || typeof conditions !== "object") {
+    return true;
+  }
+
+  if (conditions.env) {
+    for (const name of Object.keys(conditions.env)) {
+      const expected = conditions.env[name];
+      const values = Array.isArray(expected) ? expected : [expected];
+      if (!isMenuEnv(name) || !values.includes(readEnv(name))) return false;
+    }
+  }
+
+  if (Array.isArray(conditions.flags)) {
+    if (!conditions.flags.every((flag) => access.flags.has(flag))) return false;
+  }
+
+  if (conditions.from && access.now < Date.parse(conditions.from)) {
+    return false;
+  }
+  if (conditions.until && access.now >= Date.parse(conditions.until)) {
+    return false;
+  }
+
+  if (
+    Array.isArray(conditions.user_types) &&
+    conditions.user_types.length > 0
+  ) {
+    if (!access.userType || !conditions.user_types.includes(access.userType)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Whether conditions.env may read a variable; menus are user-editable, so
+ * arbitrary names would let anyone probe secrets such as API keys
+ */
+function isMenuEnv(name: string): boolean {
+  return MENU_ENV_NAMES.includes(name) || name.startsWith(MENU_ENV_PREFIX);
+}
+
+/**
+ * Enabled feature flags: app-wide flags plus the team's flags
+ */
+function loadFlags(teamId?: string | number | null): string[] {
+  try {
+    const store = new Store(OVERLAY_STORE);
+    const flags: string[] = [...(store.Get(flagsKey(null)) || [])];
+    if (teamId) {
+      flags.push(...(store.Get(flagsKey(teamId)) || []));
+    }
+    return flags;
+  } catch (e) {
+    console.error("Failed to load menu flags", e);
+    return [];
+  }
+}
+
+/**
+ * Store key for app (teamId null) or team feature flags
+ */
+function flagsKey(teamId: string | number | null): string {
+  return teamId ? `menu:flags:team:${teamId}` : "menu:flags:app";
+}
+
+/**
+ * List enabled menu feature flags
+ * @param scope "app" for app-wide flags, "team" for the caller's team flags
+ * @test yao run scripts.menu.Flags
+ * @test yao run scripts.menu.Flags team
+ */
+function Flags(scope: "app" | "team" = "app"): string[] {
+  const teamId = scope === "team" ? requireTeam() : null;
+  return new Store(OVERLAY_STORE).Get(flagsKey(teamId)) || [];
+}
+
+/**
+ * Turn a menu feature flag on or off
+ * App flags need app:menu:admin; team flags need app:menu:write:team (or admin).
+ * @param name Flag name
+ * @param enabled Whether the flag is on
+ * @param scope "app" for app-wide flags, "team" for the caller's team flags
+ * @test YAO_MENU_ALLOW_ANONYMOUS=1 yao run scripts.menu.SetFlag beta true
+ * @test YAO_MENU_ALLOW_ANONYMOUS=1 yao run scripts.menu.SetFlag beta true team
+ */
+function SetFlag(
+  name: string,
+  enabled: boolean,
+  scope: "app" | "team" = "app"
+): string[] {
+  if (!name) {
+    throw new Exception("name is required", 400);
+  }
+  const grant = resolveMenuGrant();
+  const required =
+    scope === "team"
+      ? ["app:menu:write:team", "app:menu:admin"]
+      : ["app:menu:admin"];
+  if (!required.some((item) => hasMenuScope(grant, item))) {
+    throw new Exception(`Missing scope: ${required.join(" or ")}`, 403);
+  }
+  const teamId = scope === "team" ? requireTeam() : null;
+  const store = new Store(OVERLAY_STORE);
+  const key = flagsKey(teamId);
+  const flags = ((store.Get(key) || []) as string[]).filter((f) => f !== name);
+  if (enabled) {
+    flags.push(name);
+  }
+  store.Set(key, flags);
+  invalidateMenuCache();
+  return flags;
+}
+
+/**
+ * Get the caller's team_id or throw
+ */
+function requireTeam(): string | number {
+  const authInfo = Authorized() as AuthorizedInfo | null;
+  if (!authInfo || !authInfo.team_id) {
+    throw new Exception("Team login required", 403);
+  }
+  return authInfo.team_id;
+}
+
+/**
+ * Filter menus by access, then prune parents whose children were all filtered out
+ * A denied parent also hides its whole subtree
+ */
+function filterMenusByAccess(
+  menus: MenuRecord[],
+  access: MenuAccess
+): MenuRecord[] {
+  const byId = new Map<string, MenuRecord>();
+  menus.forEach((menu) => byId.set(menu.menu_id, menu));
+
+  // A menu is visible if it and all of its ancestors are accessible and their conditions hold
+  const visible = new Map<string, boolean>();
+  const isVisible = (menu: MenuRecord, depth: number): boolean => {
+    const cached = visible.get(menu.menu_id);
+    if (cached !== undefined) return cached;
+    let result = canAccessMenu(menu, access) && matchesConditions(menu, access);
+    const parent = menu.parent ? byId.get(menu.parent) : undefined;
+    if (result && parent && depth < menus.length) {
+      result = isVisible(parent, depth + 1);
+    }
+    visible.set(menu.menu_id, result);
+    return result;
+  };
+
+  let result = menus.filter((menu) => isVisible(menu, 0));
+
+  // Prune parents that had children but lost all of them (repeat for nested levels)
+  const hadChildren = new Set<string>();
+  menus.forEach((menu) => {
+    if (menu.parent && byId.has(menu.parent)) hadChildren.add(menu.parent);
+  });
+
+  let pruned = true;
+  while (pruned) {
+    const hasChildren = new Set<string>();
+    result.forEach((menu) => {
+      if (menu.parent) hasChildren.add(menu.parent);
+    });
+    const next = result.filter(
+      (menu) => !hadChildren.has(menu.menu_id) || hasChildren.has(menu.menu_id)
+    );
+    pruned = next.length !== result.length;
+    result = next;
+  }
+
+  return result;
+}
+
 /**
  * Build menu tree from flat list using menu_id as parent reference
  * @param menus All menu records
- * @param locale The locale for localization
+ * @param locales Locale preference list for localization
+ * @param overlay Optional per-user overlay to merge
+ * @param badges Optional badge values by menu_id
  * @returns Menu output with tree structure
  */
-function buildMenuTree(menus: MenuRecord[], locale: string): MenuOutput {
+function buildMenuTree(
+  menus: MenuRecord[],
+  locales: string[],
+  overlay: MenuOverlay | null = null,
+  badges: Map<string, any> | null = null
+): MenuOutput {
+  if (overlay) {
+    menus = applyOverlay(menus, overlay);
+  }
+
   // Create a map for quick lookup by menu_id
   const menuMap = new Map<string, MenuRecord & { children?: MenuRecord[] }>();
   menus.forEach((menu) => {
@@ -169,8 +1031,11 @@ function buildMenuTree(menus: MenuRecord[], locale: string): MenuOutput {
     quick: [],
   };
 
+  // Sort roots by sort field (overlay may have rewritten it)
+  rootMenus.sort((a, b) => (a.sort ?? 0) - (b.sort ?? 0));
+
   rootMenus.forEach((menu) => {
-    const formatted = formatMenuItem(menu, locale);
+    const formatted = formatMenuItem(menu, locales, badges);
     if (menu.type === "items") {
       output.items.push(formatted);
     } else if (menu.type === "setting") {
@@ -180,7 +1045,588 @@ function buildMenuTree(menus: MenuRecord[], locale: string): MenuOutput {
     }
   });
 
-  return output;
+  // Pinned items are prepended to the quick group, in pin order
+  if (overlay && overlay.pinned.length > 0) {
+    const pinned: MenuItem[] = [];
+    overlay.pinned.forEach((menuId) => {
+      const menu = menuMap.get(menuId);
+      if (menu && menu.type !== "quick") {
+        pinned.push(formatMenuItem(menu, locales, badges));
+      }
+    });
+    output.quick = [...pinned, ...output.quick];
+  }
+
+  return output;
+}
+
+// ============ Personal Overlay ============
+
+/**
+ * Apply overlay to menu records: drop hidden subtrees and rewrite sibling sort order
+ */
+function applyOverlay(menus: MenuRecord[], overlay: MenuOverlay): MenuRecord[] {
+  // Collect hidden menus and their descendants
+  const hidden = new Set<string>(overlay.hidden);
+  let grew = hidden.size > 0;
+  while (grew) {
+    grew = false;
+    menus.forEach((menu) => {
+      if (menu.parent && hidden.has(menu.parent) && !hidden.has(menu.menu_id)) {
+        hidden.add(menu.menu_id);
+        grew = true;
+      }
+    });
+  }
+
+  const result = menus
+    .filter((menu) => !hidden.has(menu.menu_id))
+    .map((menu) => ({ ...menu }));
+
+  // Rewrite sort within each sibling group that has a personal order
+  const groups = new Map<string, MenuRecord[]>();
+  result.forEach((menu) => {
+    const key = overlayGroupKey(menu);
+    if (!overlay.order[key]) return;
+    const siblings = groups.get(key) || [];
+    siblings.push(menu);
+    groups.set(key, siblings);
+  });
+
+  groups.forEach((siblings, key) => {
+    const order = overlay.order[key];
+    const rank = (menu: MenuRecord) => {
+      const index = order.indexOf(menu.menu_id);
+      return index === -1 ? order.length : index;
+    };
+    siblings
+      .sort((a, b) => rank(a) - rank(b) || (a.sort ?? 0) - (b.sort ?? 0))
+      .forEach((menu, index) => {
+        menu.sort = index;
+      });
+  });
+
+  return result;
+}
+
+/**
+ * Sibling group key: parent menu_id, or the menu type for root items
+ */
+function overlayGroupKey(menu: {
+  parent?: string | null;
+  type: string;
+}): string {
+  return menu.parent ? menu.parent : menu.type;
+}
+
+/**
+ * Store key for the caller's overlay
+ * Team and personal logins are separate contexts, so each gets its own overlay
+ */
+function overlayKey(authInfo: AuthorizedInfo): string {
+  return `menu:overlay:${authInfo.team_id || "personal"}:${authInfo.user_id}`;
+}
+
+/**
+ * Load the caller's overlay, or null if none is stored
+ */
+function loadOverlay(authInfo: AuthorizedInfo): MenuOverlay | null {
+  if (!authInfo.user_id) {
+    return null;
+  }
+  try {
+    const store = new Store(OVERLAY_STORE);
+    const overlay = store.Get(overlayKey(authInfo));
+    if (!overlay) {
+      return null;
+    }
+    return {
+      pinned: overlay.pinned || [],
+      hidden: overlay.hidden || [],
+      order: overlay.order || {},
+      ...(overlay.quick_order ? { quick_order: overlay.quick_order } : {}),
+    };
+  } catch (e) {
+    console.error("Failed to load menu overlay", e);
+    return null;
+  }
+}
+
+/**
+ * Load, update and persist the caller's overlay
+ */
+function updateOverlay(update: (overlay: MenuOverlay) => void): MenuOverlay {
+  const authInfo = requireUser();
+  const overlay = loadOverlay(authInfo) || {
+    pinned: [],
+    hidden: [],
+    order: {},
+  };
+  update(overlay);
+  new Store(OVERLAY_STORE).Set(overlayKey(authInfo), overlay);
+  invalidateMenuCache();
+  return overlay;
+}
+
+/**
+ * Get the authorized user or throw
+ */
+function requireUser(): AuthorizedInfo {
+  const authInfo = Authorized() as AuthorizedInfo | null;
+  if (!authInfo || !authInfo.user_id) {
+    throw new Exception("Login required", 401);
+  }
+  return authInfo;
+}
+
+/**
+ * Find a menu record by primary key or throw 404
+ */
+function findMenuById(id: number): MenuRecord {
+  const menus = Process("models.menu.Get", {
+    wheres: [{ column: "id", value: id }],
+    limit: 1,
+  }) as MenuRecord[];
+  if (!menus || menus.length === 0) {
+    throw new Exception(`Menu not found: ${id}`, 404);
+  }
+  return menus[0];
+}
+
+/**
+ * Find a menu record by menu_id or throw 404
+ */
+function findMenuByMenuId(menuId: string): MenuRecord {
+  if (!menuId) {
+    throw new Exception("menu_id is required", 400);
+  }
+  const menus = Process("models.menu.Get", {
+    wheres: [{ column: "menu_id", value: menuId }],
+    limit: 1,
+  }) as MenuRecord[];
+  if (!menus || menus.length === 0) {
+    throw new Exception(`Menu not found: ${menuId}`, 404);
+  }
+  return menus[0];
+}
+
+/**
+ * Get the caller's menu overlay
+ * @test yao run scripts.menu.GetOverlay
+ */
+function GetOverlay(): MenuOverlay {
+  const authInfo = requireUser();
+  return loadOverlay(authInfo) || { pinned: [], hidden: [], order: {} };
+}
+
+/**
+ * Pin a menu item into the caller's quick group
+ * @param menuId Menu ID (menu_id)
+ * @test yao run scripts.menu.Pin items_chat
+ */
+function Pin(menuId: string): MenuOverlay {
+  findMenuByMenuId(menuId);
+  return updateOverlay((overlay) => {
+    if (!overlay.pinned.includes(menuId)) {
+      overlay.pinned.push(menuId);
+    }
+  });
+}
+
+/**
+ * Unpin a menu item from the caller's quick group
+ * @param menuId Menu ID (menu_id)
+ * @test yao run scripts.menu.Unpin items_chat
+ */
+function Unpin(menuId: string): MenuOverlay {
+  return updateOverlay((overlay) => {
+    overlay.pinned = overlay.pinned.filter((id) => id !== menuId);
+  });
+}
+
+/**
+ * Hide a menu item (and its children) for the caller
+ * @param menuId Menu ID (menu_id)
+ * @test yao run scripts.menu.Hide items_assistants
+ */
+function Hide(menuId: string): MenuOverlay {
+  findMenuByMenuId(menuId);
+  return updateOverlay((overlay) => {
+    if (!overlay.hidden.includes(menuId)) {
+      overlay.hidden.push(menuId);
+    }
+  });
+}
+
+/**
+ * Show a previously hidden menu item for the caller
+ * @param menuId Menu ID (menu_id)
+ * @test yao run scripts.menu.Unhide items_assistants
+ */
+function Unhide(menuId: string): MenuOverlay {
+  return updateOverlay((overlay) => {
+    overlay.hidden = overlay.hidden.filter((id) => id !== menuId);
+  });
+}
+
+/**
+ * Set the caller's personal order of sibling items
+ * @param group Parent menu_id, or menu type ("items", "setting", "quick") for root items
+ * @param menuIds Ordered menu_ids; unlisted siblings keep their order after them
+ * @test yao run scripts.menu.Arrange items '["items_chat","items_assistants"]'
+ */
+function Arrange(group: string, menuIds: string[]): MenuOverlay {
+  if (!group) {
+    throw new Exception("group is required", 400);
+  }
+  if (!Array.isArray(menuIds)) {
+    throw new Exception("menuIds must be an array", 400);
+  }
+  return updateOverlay((overlay) => {
+    if (menuIds.length === 0) {
+      delete overlay.order[group];
+    } else {
+      overlay.order[group] = menuIds;
+    }
+  });
+}
+
+/**
+ * Reset the caller's overlay, restoring the shared team defaults
+ * @test yao run scripts.menu.ResetOverlay
+ */
+function ResetOverlay(): void {
+  const authInfo = requireUser();
+  new Store(OVERLAY_STORE).Del(overlayKey(authInfo));
+  invalidateMenuCache();
+}
+
+// ============ Usage Analytics ============
+
+/**
+ * Record a click on a menu item for the caller
+ * Anonymous callers are ignored; tracking failures never reach the client.
+ * @param menuId Menu ID (menu_id)
+ * @test yao run scripts.menu.Track items_chat
+ */
+function Track(menuId: string): void {
+  if (!menuId) {
+    throw new Exception("menu_id is required", 400);
+  }
+  const authInfo = Authorized() as AuthorizedInfo | null;
+  if (!authInfo || !authInfo.user_id) {
+    return;
+  }
+
+  try {
+    Process("models.menu.click.Create", {
+      menu_id: menuId,
+      user_id: String(authInfo.user_id),
+      team_id: authInfo.team_id ? String(authInfo.team_id) : null,
+    });
+  } catch (e) {
+    console.error(`Failed to track menu click: ${menuId}`, e);
+  }
+}
+
+/**
+ * Choose how the caller's quick group is ordered
+ * @param mode "usage" (most clicked in the last USAGE_WINDOW_DAYS days first) or "sort" (static order)
+ * @test yao run scripts.menu.SetQuickOrder usage
+ */
+function SetQuickOrder(mode: "sort" | "usage"): MenuOverlay {
+  if (!["sort", "usage"].includes(mode)) {
+    throw new Exception(`Invalid quick order: ${mode}`, 400);
+  }
+  return updateOverlay((overlay) => {
+    if (mode === "usage") {
+      overlay.quick_order = "usage";
+    } else {
+      delete overlay.quick_order;
+    }
+  });
+}
+
+/**
+ * Usage report: top items, unused items and daily trend
+ * Reports the caller's team (or the caller's own clicks on a personal login);
+ * other teams need system:admin.
+ * @param options days: window (default 30), limit: top items (default 10),
+ *   team_id: team to report, menu_id: restrict the trend to one item, locale: names
+ * @returns Usage report
+ * @test yao run scripts.menu.Usage
+ * @test yao run scripts.menu.Usage '{"days":7,"menu_id":"items_chat"}'
+ */
+function Usage(
+  options: {
+    days?: number;
+    limit?: number;
+    team_id?: string;
+    menu_id?: string;
+    locale?: string;
+  } = {}
+): MenuUsageReport {
+  const days = Math.max(1, Number(options.days) || USAGE_WINDOW_DAYS);
+  const limit = Math.max(1, Number(options.limit) || 10);
+  const authInfo = Authorized() as AuthorizedInfo | null;
+
+  // Reported scope: a team, the caller alone, or everything for system calls
+  const teamId =
+    options.team_id || (authInfo?.team_id ? String(authInfo.team_id) : "");
+  if (options.team_id && String(authInfo?.team_id || "") !== options.team_id) {
+    requireSystemAdmin();
+  }
+  if (!teamId && !authInfo && !allowAnonymousWrites()) {
+    throw new Exception("Authentication required", 401);
+  }
+
+  const to = new Date();
+  const from = new Date(to.getTime() - days * 86400 * 1000);
+  const conditions = ["created_at >= ?"];
+  const args: any[] = [sqlTime(from)];
+  if (teamId) {
+    conditions.push("team_id = ?");
+    args.push(teamId);
+  } else if (authInfo?.user_id) {
+    conditions.push("user_id = ?");
+    args.push(String(authInfo.user_id));
+  }
+  const where = conditions.join(" AND ");
+
+  const qb = new Query("default");
+  const counts = qb.Get({
+    sql: {
+      stmt: `SELECT menu_id, COUNT(*) AS clicks, COUNT(DISTINCT user_id) AS users FROM ${CLICK_TABLE} WHERE ${where} GROUP BY menu_id ORDER BY clicks DESC`,
+      args,
+    },
+  }) as { menu_id: string; clicks: number; users: number }[];
+
+  const trendWhere = options.menu_id ? `${where} AND menu_id = ?` : where;
+  const trendArgs = options.menu_id ? [...args, options.menu_id] : args;
+  const trend = qb.Get({
+    sql: {
+      stmt: `SELECT DATE(created_at) AS day, COUNT(*) AS clicks FROM ${CLICK_TABLE} WHERE ${trendWhere} GROUP BY DATE(created_at) ORDER BY day`,
+      args: trendArgs,
+    },
+  }) as { day: string; clicks: number }[];
+
+  // Menus in scope: what the reported team (or the caller) can see
+  const scope: AuthorizedInfo | null = teamId ? { team_id: teamId } : authInfo;
+  const menus = Process("models.menu.Get", {
+    wheres:
+      authInfo || teamId
+        ? buildAuthFilters(scope)
+        : [{ column: "status", value: "enabled" }],
+    orders: [{ column: "sort", option: "asc" }],
+  }) as MenuRecord[];
+  const locales = resolveLocales(options.locale || "", authInfo);
+  const names = new Map<string, string>();
+  menus.forEach((menu) =>
+    names.set(menu.menu_id, localize(menu.name, locales))
+  );
+
+  // Only clickable items (with a link) can be unused; groups just expand
+  const clicked = new Set(counts.map((row) => row.menu_id));
+  const unused = menus
+    .filter((menu) => resolveMenuLink(menu) && !clicked.has(menu.menu_id))
+    .map((menu) => ({ menu_id: menu.menu_id, name: names.get(menu.menu_id)! }));
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    days,
+    total: counts.reduce((sum, row) => sum + Number(row.clicks), 0),
+    top: counts.slice(0, limit).map((row) => ({
+      menu_id: row.menu_id,
+      name: names.get(row.menu_id) || row.menu_id,
+      clicks: Number(row.clicks),
+      users: Number(row.users),
+    })),
+    unused,
+    trend: trend.map((row) => ({
+      day: String(row.day).slice(0, 10),
+      clicks: Number(row.clicks),
+    })),
+  };
+}
+
+/**
+ * Quick group order by the caller's clicks in the last USAGE_WINDOW_DAYS days, most used first
+ */
+function quickOrderByUsage(authInfo: AuthorizedInfo): string[] {
+  try {
+    const from = new Date(Date.now() - USAGE_WINDOW_DAYS * 86400 * 1000);
+    const qb = new Query("default");
+    const rows = qb.Get({
+      sql: {
+        stmt: `SELECT menu_id, COUNT(*) AS clicks FROM ${CLICK_TABLE} WHERE user_id = ? AND created_at >= ? GROUP BY menu_id ORDER BY clicks DESC`,
+        args: [String(authInfo.user_id), sqlTime(from)],
+      },
+    }) as { menu_id: string }[];
+    return rows.map((row) => row.menu_id);
+  } catch (e) {
+    console.error("Failed to load menu usage", e);
+    return [];
+  }
+}
+
+/**
+ * Format a date as a UTC SQL timestamp (YYYY-MM-DD HH:MM:SS)
+ */
+function sqlTime(date: Date): string {
+  return date.toISOString().slice(0, 19).replace("T", " ");
+}
+
+// ============ Badges ============
+
+/**
+ * Evaluate badge processes of visible menus for the caller
+ * Each menu opts in with extra.badge = { process, args?, ttl?, timeout? }; only
+ * processes under BADGE_PROCESS_PREFIXES run. Uncached badges are evaluated in one
+ * concurrent batch, so the menu waits for the slowest badge rather than the sum.
+ * Results are cached per menu and caller; a failing or slow process yields no badge.
+ * @returns Badge values by menu_id
+ */
+function resolveBadges(
+  menus: MenuRecord[],
+  authInfo: AuthorizedInfo | null
+): Map<string, any> {
+  const badges = new Map<string, any>();
+  const cache = new Store("__yao.cache");
+  const caller = authInfo
+    ? `${authInfo.team_id || "personal"}:${authInfo.user_id || ""}`
+    : "guest";
+
+  const pending: { menuId: string; key: string; source: MenuBadgeSource }[] =
+    [];
+  menus.forEach((menu) => {
+    const source = menu.extra?.badge as MenuBadgeSource | undefined;
+    if (!source || typeof source.process !== "string" || !source.process) {
+      return;
+    }
+    if (!isBadgeProcess(source.process)) {
+      console.error(
+        `Menu badge process not allowed: ${menu.menu_id} (${source.process})`
+      );
+      return;
+    }
+
+    // Cached as a wrapper so failures (null) are cached too
+    const key = `menu:badge:${menu.menu_id}:${caller}`;
+    const cached = cache.Get(key);
+    if (cached) {
+      if (cached.value !== null && cached.value !== undefined) {
+        badges.set(menu.menu_id, cached.value);
+      }
+      return;
+    }
+    pending.push({ menuId: menu.menu_id, key, source });
+  });
+
+  if (pending.length === 0) {
+    return badges;
+  }
+
+  try {
+    const results = All(
+      pending.map((item) => ({
+        process: "scripts.menu.EvaluateBadge",
+        args: [item.menuId, item.source],
+      }))
+    );
+    (results || []).forEach((result) => {
+      const item = pending[result.index];
+      const value = result.error ? null : (result.data ?? null);
+      cache.Set(item.key, { value }, item.source.ttl ?? BADGE_CACHE_TTL);
+      if (value !== null) {
+        badges.set(item.menuId, value);
+      }
+    });
+  } catch (e) {
+    console.error("Failed to resolve menu badges", e);
+  }
+
+  return badges;
+}
+
+/**
+ * Run a badge process, racing it against a timer
+ * Runs with the caller's auth (propagated by All/Race); processes outside
+ * BADGE_PROCESS_PREFIXES are refused.
+ * @param menuId Menu the badge belongs to (for logging)
+ * @param source Badge source from extra.badge
+ * @returns Badge value, or null on error, timeout or empty result
+ */
+function EvaluateBadge(menuId: string, source: MenuBadgeSource): any {
+  if (!source || !isBadgeProcess(source.process)) {
+    console.error(`Menu badge process not allowed: ${menuId}`);
+    return null;
+  }
+
+  try {
+    const results = Race([
+      { process: source.process, args: source.args || [] },
+      { process: "utils.time.Sleep", args: [source.timeout ?? BADGE_TIMEOUT] },
+    ]);
+    const result = (results || []).find((item) => item && item.index === 0);
+    if (!result) {
+      console.error(`Menu badge timed out: ${menuId} (${source.process})`);
+      return null;
+    }
+    if (result.error) {
+      console.error(
+        `Menu badge failed: ${menuId} (${source.process})`,
+        result.error
+      );
+      return null;
+    }
+
+    const value = result.data;
+    if (value === 0 || value === "" || value === false) {
+      return null;
+    }
+    return value ?? null;
+  } catch (e) {
+    console.error(`Menu badge failed: ${menuId} (${source.process})`, e);
+    return null;
+  }
+}
+
+/**
+ * Whether a process may be used as a menu badge source
+ */
+function isBadgeProcess(process: any): boolean {
+  if (typeof process !== "string") return false;
+  const name = process.toLowerCase();
+  return BADGE_PROCESS_PREFIXES.some((prefix) => name.startsWith(prefix));
+}
+
+/**
+ * Badge processes run for every viewer of the menu, so setting or changing
+ * extra.badge needs app:menu:admin and a process under BADGE_PROCESS_PREFIXES
+ * @param grant Caller's grant
+ * @param data Incoming menu fields
+ * @param current Current row, null when creating
+ */
+function assertMenuBadge(
+  grant: MenuGrant,
+  data: Partial<MenuRecord>,
+  current: MenuRecord | null
+): void {
+  if (!("extra" in data)) return;
+  const badge = data.extra?.badge;
+  if (stableStringify(badge) === stableStringify(current?.extra?.badge)) {
+    return;
+  }
+  if (!hasMenuScope(grant, "app:menu:admin")) {
+    throw new Exception("Missing scope: app:menu:admin (extra.badge)", 403);
+  }
+  if (badge && !isBadgeProcess(badge.process)) {
+    throw new Exception(
+      `extra.badge.process must start with ${BADGE_PROCESS_PREFIXES.join(" or ")}`,
+      400
+    );
+  }
 }
 
 /**
@@ -188,287 +1634,2468 @@ function buildMenuTree(menus: MenuRecord[], locale: string): MenuOutput {
  */
 function formatMenuItem(
   menu: MenuRecord & { children?: MenuRecord[] },
-  locale: string
+  locales: string[],
+  badges: Map<string, any> | null = null
 ): MenuItem {
   const result: MenuItem = {
-    name: localizeName(menu.name, locale),
+    name: localize(menu.name, locales),
     sort: menu.sort ?? 0,
   };
 
+  // Add localized description and tooltip if present
+  const description = localize(menu.description, locales);
+  if (description) {
+    result.description = description;
+  }
+  const tooltip = localize(menu.extra?.tooltip, locales);
+  if (tooltip) {
+    result.tooltip = tooltip;
+  }
+
   // Add icon if present
   if (menu.icon) {
     result.icon = menu.icon;
   }
 
-  // Add path if present
-  if (menu.path) {
-    result.path = menu.path;
+  // Add path if present
+  if (menu.path) {
+    result.path = menu.path;
+  }
+
+  // Add resolved link (typed target, or path as fallback)
+  const link = resolveMenuLink(menu);
+  if (link) {
+    result.link = link;
+  }
+
+  // Add badge if evaluated
+  const badge = badges?.get(menu.menu_id);
+  if (badge !== undefined && badge !== null) {
+    result.badge = badge;
+  }
+
+  // Add children recursively
+  if (menu.children && menu.children.length > 0) {
+    // Sort children by sort field
+    menu.children.sort((a, b) => (a.sort ?? 0) - (b.sort ?? 0));
+    result.children = menu.children.map((child) =>
+      formatMenuItem(
+        child as MenuRecord & { children?: MenuRecord[] },
+        locales,
+        badges
+      )
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Localize an i18n map using a locale preference list
+ * Each preferred tag is matched with matchLocaleKey; when none matches, the
+ * first available translation is used.
+ * @param value String or i18n map, e.g. { "en": "Dashboard", "zh-cn": "数据看板" }
+ * @param locales Preferred locales, most preferred first (see resolveLocales)
+ */
+function localize(
+  value: string | Record<string, string> | null | undefined,
+  locales: string[]
+): string {
+  if (typeof value === "string") {
+    return value;
+  }
+  if (!value || typeof value !== "object") {
+    return "";
+  }
+
+  const keys = localeKeys(value);
+  if (keys.size === 0) {
+    return "";
+  }
+
+  for (const tag of locales) {
+    const key = matchLocaleKey(keys, tag);
+    if (key) return value[key];
+  }
+
+  // Final fallback: first available (alphabetical, so the result is stable)
+  return value[keys.values().next().value as string];
+}
+
+/**
+ * Non-empty keys of an i18n map, normalized tag -> original key (alphabetical)
+ */
+function localeKeys(value: Record<string, string>): Map<string, string> {
+  const keys = new Map<string, string>();
+  Object.keys(value)
+    .sort()
+    .forEach((key) => {
+      if (value[key]) keys.set(normalizeLocale(key), key);
+    });
+  return keys;
+}
+
+/**
+ * Find the i18n key serving a locale, used by both localize and Translations
+ * Tries the tag and its truncations ("zh-tw" -> "zh"). A language-only tag ("zh")
+ * also accepts a regional variant, preferring PREFERRED_REGIONS then alphabetical
+ * order. A regional tag never jumps to another region ("zh-tw" does not resolve to "zh-cn").
+ * @param keys Keys from localeKeys
+ * @param tag Normalized locale tag
+ * @returns The original key, undefined when the locale is not served
+ */
+function matchLocaleKey(
+  keys: Map<string, string>,
+  tag: string
+): string | undefined {
+  for (const candidate of localeTruncations(tag)) {
+    const key = keys.get(candidate);
+    if (key) return key;
+  }
+
+  if (!tag.includes("-")) {
+    const variants = [...keys.keys()].filter((key) =>
+      key.startsWith(tag + "-")
+    );
+    if (variants.length > 0) {
+      const preferred = PREFERRED_REGIONS[tag];
+      return keys.get(variants.includes(preferred) ? preferred : variants[0]);
+    }
+  }
+  return undefined;
+}
+
+// ============ Menu Targets ============
+
+/**
+ * Resolve a menu's link descriptor from its target, falling back to path
+ * (absolute URLs open in a new tab, anything else is a dashboard route)
+ */
+function resolveMenuLink(menu: MenuRecord): MenuLink | null {
+  const target = menu.target;
+  if (!target || !target.kind) {
+    if (!menu.path) return null;
+    return isExternalUrl(menu.path)
+      ? { kind: "url", href: menu.path, target: "_blank" }
+      : { kind: "route", href: menu.path };
+  }
+
+  switch (target.kind) {
+    case "route":
+      return { kind: "route", href: target.route };
+    case "url":
+      return {
+        kind: "url",
+        href: target.url,
+        target: target.target || "_blank",
+      };
+    case "assistant":
+      return { kind: "assistant", assistant_id: target.assistant_id };
+    case "sui":
+      return { kind: "sui", href: suiPageHref(target.page!) };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check that a menu target is well-formed and points at something that exists, throw 400 otherwise
+ * @param target Target to check (null/undefined passes)
+ */
+function assertMenuTarget(target: MenuTarget | null | undefined): void {
+  if (target === null || target === undefined) return;
+  if (typeof target !== "object") {
+    throw new Exception("target must be an object", 400);
+  }
+
+  switch (target.kind) {
+    case "route":
+      if (!target.route || !target.route.startsWith("/")) {
+        throw new Exception("target.route must start with /", 400);
+      }
+      return;
+
+    case "url":
+      if (!target.url || !isExternalUrl(target.url)) {
+        throw new Exception("target.url must be an http(s) URL", 400);
+      }
+      if (target.target && !["_self", "_blank"].includes(target.target)) {
+        throw new Exception(`Invalid target.target: ${target.target}`, 400);
+      }
+      return;
+
+    case "assistant": {
+      const id = target.assistant_id || "";
+      if (!/^[a-zA-Z0-9_\-]+(\.[a-zA-Z0-9_\-]+)*$/.test(id)) {
+        throw new Exception(`Invalid target.assistant_id: ${id}`, 400);
+      }
+      const fs = new FS("app");
+      if (!fs.Exists(`assistants/${id.replace(/\./g, "/")}/package.yao`)) {
+        throw new Exception(`Assistant not found: ${id}`, 400);
+      }
+      return;
+    }
+
+    case "sui": {
+      const page = target.page || "";
+      if (!page.startsWith("/") || page.includes("..")) {
+        throw new Exception("target.page must start with /", 400);
+      }
+      const name = page.split("/").filter(Boolean).pop() || "index";
+      const fs = new FS("app");
+      if (!fs.Exists(`${SUI_TEMPLATE_ROOT}${page}/${name}.html`)) {
+        throw new Exception(`SUI page not found: ${page}`, 400);
+      }
+      return;
+    }
+
+    default:
+      throw new Exception(`Invalid target.kind: ${(target as any).kind}`, 400);
+  }
+}
+
+/**
+ * Public URL of a SUI page under suis/web.sui.yao
+ */
+function suiPageHref(page: string): string {
+  return SUI_PUBLIC_ROOT.replace(/\/$/, "") + page;
+}
+
+/**
+ * Whether a path is an absolute http(s) URL
+ */
+function isExternalUrl(path: string): boolean {
+  return /^https?:\/\//i.test(path);
+}
+
+// ============ Locale Negotiation ============
+
+/**
+ * Resolve the caller's locale preference list
+ * Uses the given locale, then the request's Accept-Language header, then the
+ * caller's profile locale, and always ends with the default locale
+ * @param locale Locale tag ("zh-TW") or Accept-Language value ("zh-TW,zh;q=0.9,en;q=0.8")
+ * @param acceptLanguage Accept-Language header of the request, if known
+ */
+function resolveLocales(
+  locale: string,
+  authInfo: AuthorizedInfo | null,
+  acceptLanguage: string = ""
+): string[] {
+  let preferred = parseAcceptLanguage(locale || "");
+  if (preferred.length === 0) {
+    preferred = parseAcceptLanguage(acceptLanguage || "");
+  }
+  if (preferred.length === 0) {
+    const profile = profileLocale(authInfo);
+    if (profile) preferred = [profile];
+  }
+
+  const locales: string[] = [];
+  [...preferred, defaultLocale()].forEach((tag) => {
+    if (!locales.includes(tag)) locales.push(tag);
+  });
+  return locales;
+}
+
+/**
+ * Parse an Accept-Language value (or a single tag) into tags ordered by q-value
+ */
+function parseAcceptLanguage(header: string): string[] {
+  return header
+    .split(",")
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(";");
+      const q = params
+        .map((param) => param.trim())
+        .find((param) => param.startsWith("q="));
+      const quality = q ? parseFloat(q.slice(2)) : 1;
+      return {
+        tag: normalizeLocale(tag),
+        quality: isNaN(quality) ? 0 : quality,
+        index,
+      };
+    })
+    .filter((item) => LOCALE_TAG.test(item.tag) && item.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map((item) => item.tag);
+}
+
+/**
+ * Normalize a BCP-47 tag for comparison ("zh_TW" -> "zh-tw")
+ */
+function normalizeLocale(tag: string): string {
+  return (tag || "").trim().replace(/_/g, "-").toLowerCase();
+}
+
+/**
+ * A tag and its shorter prefixes, most specific first ("zh-hant-tw" -> "zh-hant-tw", "zh-hant", "zh")
+ */
+function localeTruncations(tag: string): string[] {
+  const parts = tag.split("-");
+  const result: string[] = [];
+  for (let i = parts.length; i > 0; i--) {
+    result.push(parts.slice(0, i).join("-"));
+  }
+  return result;
+}
+
+/**
+ * Default locale (YAO_MENU_DEFAULT_LOCALE, else DEFAULT_LOCALE)
+ */
+function defaultLocale(): string {
+  return normalizeLocale(readEnv("YAO_MENU_DEFAULT_LOCALE")) || DEFAULT_LOCALE;
+}
+
+/**
+ * Locales the app supports (YAO_MENU_LOCALES, comma-separated, else SUPPORTED_LOCALES)
+ */
+function supportedLocales(): string[] {
+  const configured = readEnv("YAO_MENU_LOCALES")
+    .split(",")
+    .map(normalizeLocale)
+    .filter(Boolean);
+  return configured.length > 0 ? configured : SUPPORTED_LOCALES;
+}
+
+/**
+ * Locale stored on the caller's user profile, if any
+ */
+function profileLocale(authInfo: AuthorizedInfo | null): string | null {
+  if (!authInfo || !authInfo.user_id) {
+    return null;
+  }
+  try {
+    const users = Process("models.__yao.user.Get", {
+      select: ["locale"],
+      wheres: [{ column: "user_id", value: authInfo.user_id }],
+      limit: 1,
+    });
+    return users && users.length > 0 && users[0].locale
+      ? normalizeLocale(users[0].locale)
+      : null;
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Report menu items missing translations for each supported locale
+ * Checks name, description and extra.tooltip; a locale counts as covered when
+ * localize would serve it (matchLocaleKey), so "zh" is covered by "zh-cn"
+ * @param locales Locales to check, defaults to the app's supported locales
+ * @returns Missing translations per locale
+ * @test yao run scripts.menu.Translations
+ * @test yao run scripts.menu.Translations '["en","zh-cn","zh-tw"]'
+ */
+function Translations(locales?: string[]): {
+  locales: string[];
+  total: number;
+  missing: Record<string, { menu_id: string; fields: string[] }[]>;
+} {
+  const checked = (
+    Array.isArray(locales) && locales.length > 0 ? locales : supportedLocales()
+  ).map(normalizeLocale);
+
+  const authInfo = Authorized() as AuthorizedInfo | null;
+  const menus = Process("models.menu.Get", {
+    wheres: buildAuthFilters(authInfo, true),
+    orders: [{ column: "sort", option: "asc" }],
+  }) as MenuRecord[];
+
+  const missing: Record<string, { menu_id: string; fields: string[] }[]> = {};
+  checked.forEach((locale) => {
+    missing[locale] = [];
+
+    menus.forEach((menu) => {
+      const fields: string[] = [];
+      const texts: Record<string, any> = {
+        name: menu.name,
+        description: menu.description,
+        tooltip: menu.extra?.tooltip,
+      };
+      Object.keys(texts).forEach((field) => {
+        const value = texts[field];
+        if (!value || typeof value !== "object") return;
+        if (!matchLocaleKey(localeKeys(value), locale)) {
+          fields.push(field);
+        }
+      });
+      if (fields.length > 0) {
+        missing[locale].push({ menu_id: menu.menu_id, fields });
+      }
+    });
+  });
+
+  return { locales: checked, total: menus.length, missing };
+}
+
+/**
+ * Create a new menu item
+ * Requires app:menu:write:*; public, team-shared and system menus also need
+ * app:menu:publish:all, app:menu:share:team and app:menu:admin respectively,
+ * and so does setting extra.badge (app:menu:admin).
+ * @param data Menu item data
+ * @returns Created menu ID
+ * @test YAO_MENU_ALLOW_ANONYMOUS=1 yao run scripts.menu.Create '{"menu_id":"test","name":{"en":"Test","zh-cn":"测试"},"type":"items"}'
+ * @test YAO_MENU_ALLOW_ANONYMOUS=1 yao run scripts.menu.Create '{"menu_id":"test_chat","name":{"en":"Chat"},"type":"items","target":{"kind":"assistant","assistant_id":"yao"}}'
+ */
+function Create(data: MenuRecord): number {
+  const grant = requireMenuScope("write");
+
+  // Validate fields against the menu schema (types/menu.schema.json)
+  assertMenuSchema(data);
+
+  // Set defaults
+  data.sort = data.sort ?? 0;
+  data.status = data.status ?? "enabled";
+  data.public = data.public ?? false;
+  data.share = data.share ?? "private";
+
+  // Publishing, team-sharing and system menus need their own scopes
+  assertMenuVisibilityScope(grant, data, null);
+  assertMenuBadge(grant, data, null);
+  assertMenuTarget(data.target);
+
+  // Reject broken tree structure before writing
+  assertMenuTree(data);
+
+  const id = Process("models.menu.Create", data);
+  recordRevision("create", null, data);
+  invalidateMenuCache();
+  return id;
+}
+
+/**
+ * Update a menu item
+ * @param id Menu ID (primary key)
+ * @param data Menu item data
+ * @returns Updated menu
+ * @test YAO_MENU_ALLOW_ANONYMOUS=1 yao run scripts.menu.Update 1 '{"name":{"en":"Updated"}}'
+ */
+function Update(id: number, data: Partial<MenuRecord>): void {
+  if (!id) {
+    throw new Exception("id is required", 400);
+  }
+
+  // Check permission before update
+  const grant = requireMenuScope("write");
+  checkMenuPermission(id);
+  assertMenuSchema(data, true);
+
+  const before = findMenuById(id);
+  assertMenuVisibilityScope(grant, data, before);
+  assertMenuBadge(grant, data, before);
+  assertMenuTarget(data.target);
+
+  // Re-check tree structure when parent, type or menu_id changes
+  if ("parent" in data || "type" in data || "menu_id" in data) {
+    assertMenuTree({ ...before, ...data } as MenuRecord, before.menu_id);
+  }
+
+  Process("models.menu.Update", id, data);
+  recordRevision("update", before, { ...before, ...data });
+  invalidateMenuCache();
+}
+
+/**
+ * Save a menu item (create or update)
+ * @param data Menu item data
+ * @returns Menu ID
+ * @test YAO_MENU_ALLOW_ANONYMOUS=1 yao run scripts.menu.Save '{"menu_id":"test","name":{"en":"Test"},"type":"items"}'
+ */
+function Save(data: MenuRecord): number {
+  if (!data.menu_id) {
+    throw new Exception("menu_id is required", 400);
+  }
+  const grant = requireMenuScope("write");
+  return saveMenu(data, grant, "save", null);
+}
+
+/**
+ * Save with the checks of script Save: permission, schema, scopes, target and tree
+ * @param data Menu item data (menu_id required)
+ * @param grant Caller's grant
+ * @param action Revision action to record
+ * @param batch Revision batch id
+ * @returns Menu ID
+ */
+function saveMenu(
+  data: MenuRecord,
+  grant: MenuGrant,
+  action: MenuRevision["action"],
+  batch: string | null
+): number {
+  // Check if menu exists by menu_id
+  const existing = Process("models.menu.Get", {
+    wheres: [{ column: "menu_id", value: data.menu_id }],
+    limit: 1,
+  }) as MenuRecord[];
+
+  if (existing && existing.length > 0) {
+    // Check permission before update
+    checkMenuPermission(existing[0].id!);
+    data.id = existing[0].id;
+  }
+  assertMenuSchema(data, !!data.id);
+
+  const current = existing && existing.length > 0 ? existing[0] : null;
+  assertMenuVisibilityScope(grant, data, current);
+  assertMenuBadge(grant, data, current);
+  assertMenuTarget(data.target);
+
+  // Reject broken tree structure before writing
+  assertMenuTree({
+    ...data,
+    parent: "parent" in data ? data.parent : current?.parent,
+    type: data.type || current?.type || "items",
+  });
+
+  const id = Process("models.menu.Save", data);
+  recordRevision(action, current, { ...(current || {}), ...data }, batch);
+  invalidateMenuCache();
+  return id;
+}
+
+/**
+ * Validate menu fields against the schema, throw 400 listing every field error
+ * @param data Menu fields
+ * @param partial Only check the fields present (updates)
+ */
+function assertMenuSchema(data: Partial<MenuRecord>, partial = false): void {
+  const errors = validateMenuSchema(data, "MenuRecord", partial);
+  if (errors.length > 0) {
+    throw new Exception(
+      `Invalid menu: ${errors.map((e) => `${e.field} ${e.message}`).join("; ")}`,
+      400
+    );
+  }
+}
+
+/**
+ * Delete a menu item
+ * Strategies for items with children:
+ * - block (default): refuse while the item has children
+ *   (a plain delete would leave them pointing at a missing parent)
+ * - cascade: delete the item and all of its descendants
+ * - reparent: move the children up to the item's parent (or the root of its group)
+ * @param id Menu ID (primary key)
+ * @param strategy block | cascade | reparent
+ * @returns menu_ids deleted and reparented
+ * @test YAO_MENU_ALLOW_ANONYMOUS=1 yao run scripts.menu.Delete 1
+ * @test YAO_MENU_ALLOW_ANONYMOUS=1 yao run scripts.menu.Delete 1 cascade
+ */
+function Delete(
+  id: number,
+  strategy: MenuDeleteStrategy = "block"
+): { deleted: string[]; reparented: string[] } {
+  if (!id) {
+    throw new Exception("id is required", 400);
+  }
+  strategy = strategy || "block"; // empty query parameter over HTTP
+  if (!["block", "cascade", "reparent"].includes(strategy)) {
+    throw new Exception(`Invalid delete strategy: ${strategy}`, 400);
+  }
+
+  // Check permission before delete
+  requireMenuScope("delete");
+  checkMenuPermission(id);
+
+  const before = findMenuById(id);
+  const children = Process("models.menu.Get", {
+    wheres: [{ column: "parent", value: before.menu_id }],
+  }) as MenuRecord[];
+
+  if (children.length > 0 && strategy === "block") {
+    throw new Exception(
+      `Menu ${before.menu_id} has ${children.length} children, move them or delete with cascade/reparent`,
+      400
+    );
+  }
+
+  const batch = generateBatchId("delete");
+  const deleted: string[] = [];
+  const reparented: string[] = [];
+
+  if (strategy === "cascade") {
+    // Children first so no live row ever points at a deleted parent
+    const structure = loadMenuStructure();
+    const subtree = collectDescendants(structure, [before.menu_id]);
+    const descendants = Process("models.menu.Get", {
+      wheres: [
+        {
+          column: "menu_id",
+          op: "in",
+          value: [...subtree].filter((menuId) => menuId !== before.menu_id),
+        },
+      ],
+    }) as MenuRecord[];
+    const depth = (menu: MenuRecord): number =>
+      menu.parent && subtree.has(menu.parent)
+        ? 1 + depth(structure.find((item) => item.menu_id === menu.parent)!)
+        : 0;
+    descendants.sort((a, b) => depth(b) - depth(a));
+
+    descendants.forEach((menu) => checkMenuPermission(menu.id!));
+    descendants.forEach((menu) => {
+      Process("models.menu.Delete", menu.id);
+      recordRevision("delete", menu, null, batch);
+      deleted.push(menu.menu_id);
+    });
+  }
+
+  if (strategy === "reparent") {
+    children.forEach((menu) => checkMenuPermission(menu.id!));
+    children.forEach((menu) => {
+      const parent = before.parent || null;
+      Process("models.menu.Update", menu.id, { parent });
+      recordRevision("update", menu, { ...menu, parent }, batch);
+      reparented.push(menu.menu_id);
+    });
+  }
+
+  Process("models.menu.Delete", id);
+  recordRevision("delete", before, null, batch);
+  deleted.push(before.menu_id);
+
+  invalidateMenuCache();
+  return { deleted, reparented };
+}
+
+/**
+ * Restore a soft-deleted menu item together with everything deleted alongside it
+ * Items removed by one cascade delete come back as one subtree.
+ * @param menuId Menu ID (menu_id) of the deleted item
+ * @returns menu_ids restored
+ * @test YAO_MENU_ALLOW_ANONYMOUS=1 yao run scripts.menu.Undelete items_chat
+ */
+function Undelete(menuId: string): { restored: string[] } {
+  if (!menuId) {
+    throw new Exception("menu_id is required", 400);
+  }
+  requireMenuScope("delete");
+
+  const trashed = getTrashedMenus([menuId]);
+  if (trashed.length === 0) {
+    throw new Exception(`Deleted menu not found: ${menuId}`, 404);
+  }
+
+  // Everything deleted in the same operation
+  const revisions = Process("models.menu.revision.Get", {
+    wheres: [
+      { column: "menu_id", value: menuId },
+      { column: "action", value: "delete" },
+    ],
+    orders: [{ column: "id", option: "desc" }],
+    limit: 1,
+  }) as MenuRevision[];
+  const batch = revisions.length > 0 ? revisions[0].batch : null;
+
+  let menus = trashed;
+  if (batch) {
+    const related = Process("models.menu.revision.Get", {
+      select: ["menu_id"],
+      wheres: [
+        { column: "batch", value: batch },
+        { column: "action", value: "delete" },
+      ],
+    }) as MenuRevision[];
+    menus = getTrashedMenus([...new Set(related.map((rev) => rev.menu_id))]);
+  }
+
+  // Only the deleted item and what hung below it
+  const subtree = collectDescendants(menus, [menuId]);
+  menus = menus.filter((menu) => subtree.has(menu.menu_id));
+
+  const root = menus.find((menu) => menu.menu_id === menuId)!;
+  if (root.parent) {
+    const parent = Process("models.menu.Get", {
+      wheres: [{ column: "menu_id", value: root.parent }],
+      limit: 1,
+    }) as MenuRecord[];
+    if (!parent || parent.length === 0) {
+      throw new Exception(
+        `Parent ${root.parent} is deleted, restore it first`,
+        400
+      );
+    }
+  }
+
+  menus.forEach((menu) => checkMenuPermission(menu.id!, menu));
+  assertMenuTree(menus);
+
+  const restoreBatch = generateBatchId("undelete");
+  undeleteMenus(menus.map((menu) => menu.id!));
+  menus.forEach((menu) => recordRevision("restore", null, menu, restoreBatch));
+
+  invalidateMenuCache();
+  return { restored: menus.map((menu) => menu.menu_id) };
+}
+
+// ============ Write Scopes ============
+
+/**
+ * Resolve the caller's granted scopes (token scope + role permissions, aliases expanded)
+ * Callers without auth info are rejected unless YAO_MENU_ALLOW_ANONYMOUS is set,
+ * which is meant for `yao run` administration only.
+ */
+function resolveMenuGrant(): MenuGrant {
+  const authInfo = Authorized() as AuthorizedInfo | null;
+  if (!authInfo) {
+    if (allowAnonymousWrites()) {
+      return { authInfo: null, scopes: [], system: true };
+    }
+    throw new Exception("Authentication required", 401);
+  }
+
+  const names = [
+    ...(authInfo.scopes || []),
+    ...(authInfo.scope || "").split(/[\s,]+/).filter(Boolean),
+  ];
+  try {
+    const roles = resolveMenuAccess(authInfo).roles;
+    if (roles.length > 0) {
+      const rows = Process("models.__yao.role.Get", {
+        select: ["role_id", "permissions"],
+        wheres: [{ column: "role_id", op: "in", value: roles }],
+      });
+      (rows || []).forEach((row: any) => {
+        const permissions =
+          typeof row.permissions === "string"
+            ? JSON.parse(row.permissions)
+            : row.permissions;
+        if (Array.isArray(permissions)) names.push(...permissions);
+      });
+    }
+  } catch (e) {
+    console.error("Failed to resolve menu role permissions", e);
+  }
+
+  // Expand scope aliases (e.g. system:admin, app:all) into concrete patterns
+  const aliases = loadScopeAliases();
+  const scopes = new Set<string>();
+  const expand = (name: string) => {
+    if (scopes.has(name)) return;
+    scopes.add(name);
+    const alias = aliases[name];
+    if (Array.isArray(alias)) alias.forEach(expand);
+  };
+  names.forEach(expand);
+
+  return { authInfo, scopes: [...scopes], system: false };
+}
+
+/**
+ * Scope aliases from openapi/scopes/alias.yml (cached)
+ */
+function loadScopeAliases(): Record<string, string[]> {
+  const cache = new Store("__yao.cache");
+  return cache.GetSet(
+    SCOPE_ALIAS_CACHE_KEY,
+    () => readYamlFile("openapi/scopes/alias.yml"),
+    FEATURE_CACHE_TTL
+  );
+}
+
+/**
+ * Whether unauthenticated calls are trusted as system calls
+ */
+function allowAnonymousWrites(): boolean {
+  return ["1", "true", "yes"].includes(
+    readEnv("YAO_MENU_ALLOW_ANONYMOUS").toLowerCase()
+  );
+}
+
+/**
+ * Check a grant against a scope; "*" matches one part, patterns must have the same number of parts
+ */
+function hasMenuScope(grant: MenuGrant, scope: string): boolean {
+  if (grant.system) return true;
+  const parts = scope.split(":");
+  return grant.scopes.some((pattern) => {
+    const patternParts = pattern.split(":");
+    return (
+      patternParts.length === parts.length &&
+      patternParts.every((part, i) => part === "*" || part === parts[i])
+    );
+  });
+}
+
+/**
+ * Require a menu write/delete scope at any level, or the admin scope
+ * @param action write | delete | admin
+ * @returns The caller's grant
+ */
+function requireMenuScope(action: "write" | "delete" | "admin"): MenuGrant {
+  const grant = resolveMenuGrant();
+  const scopes =
+    action === "admin"
+      ? ["app:menu:admin"]
+      : ["all", "own", "team"].map((level) => `app:menu:${action}:${level}`);
+  if (!scopes.some((scope) => hasMenuScope(grant, scope))) {
+    throw new Exception(`Missing scope: ${scopes.join(" or ")}`, 403);
+  }
+  return grant;
+}
+
+/**
+ * Check the scopes needed to publish, team-share or flag a menu as system
+ * Only fields that change (compared to the current row) are checked.
+ * @param grant Caller's grant
+ * @param data Incoming menu fields
+ * @param current Current row, null when creating
+ */
+function assertMenuVisibilityScope(
+  grant: MenuGrant,
+  data: Partial<MenuRecord>,
+  current: MenuRecord | null
+): void {
+  if (
+    normalizeMenuField("public", data.public) === true &&
+    normalizeMenuField("public", current?.public) !== true &&
+    !hasMenuScope(grant, "app:menu:publish:all")
+  ) {
+    throw new Exception("Missing scope: app:menu:publish:all", 403);
+  }
+  if (
+    data.share === "team" &&
+    current?.share !== "team" &&
+    !hasMenuScope(grant, "app:menu:share:team")
+  ) {
+    throw new Exception("Missing scope: app:menu:share:team", 403);
+  }
+  if (
+    "system" in data &&
+    normalizeMenuField("system", data.system) !==
+      normalizeMenuField("system", current?.system ?? false) &&
+    !hasMenuScope(grant, "app:menu:admin")
+  ) {
+    throw new Exception("Missing scope: app:menu:admin", 403);
+  }
+}
+
+/**
+ * Check if user has permission to modify a menu
+ * @param id Menu ID
+ * @param record Already loaded menu row (e.g. a soft-deleted one), skips the lookup
+ */
+function checkMenuPermission(id: number, record?: MenuRecord): void {
+  const authInfo = Authorized() as AuthorizedInfo | null;
+
+  // No auth info - only trusted system calls may continue
+  if (!authInfo) {
+    if (allowAnonymousWrites()) {
+      return;
+    }
+    throw new Exception("Authentication required", 401);
+  }
+
+  const constraints = authInfo.constraints || {};
+
+  // No constraints - allow
+  if (!constraints.owner_only && !constraints.team_only) {
+    return;
+  }
+
+  // Get menu record
+  const menu =
+    record ||
+    (Process("models.menu.Find", id, {
+      select: ["id", "public", "share", "__yao_created_by", "__yao_team_id"],
+    }) as MenuRecord);
+
+  if (!menu) {
+    throw new Exception("Menu not found", 404);
+  }
+
+  // Owner only: check if user owns the menu
+  if (constraints.owner_only && authInfo.user_id) {
+    if (menu.__yao_created_by === authInfo.user_id) {
+      return;
+    }
+  }
+
+  // Team only: check if menu belongs to user's team
+  if (constraints.team_only && authInfo.team_id) {
+    if (menu.__yao_team_id === authInfo.team_id) {
+      return;
+    }
+  }
+
+  throw new Exception("No permission to modify this menu", 403);
+}
+
+// ============ Tree Validation ============
+
+/**
+ * Validate the stored menu tree and return a structured report
+ * Checks self-parenting, parent cycles, missing parents, parent/child type
+ * mixing and nesting depth (max MAX_MENU_DEPTH)
+ * @returns Validation report
+ * @test yao run scripts.menu.Validate
+ */
+function Validate(): MenuValidationReport {
+  const menus = loadMenuStructure();
+  const issues = validateMenuTree(menus);
+  return { valid: issues.length === 0, total: menus.length, issues };
+}
+
+/**
+ * Load menu_id / parent / type of all menus for structure checks
+ */
+function loadMenuStructure(): MenuRecord[] {
+  return Process("models.menu.Get", {
+    select: ["id", "menu_id", "parent", "type"],
+  }) as MenuRecord[];
+}
+
+/**
+ * Validate tree integrity of a flat menu list
+ * @param menus Menu records (menu_id, parent, type are required)
+ * @returns List of issues, empty if the tree is valid
+ */
+function validateMenuTree(menus: MenuRecord[]): MenuIssue[] {
+  const issues: MenuIssue[] = [];
+  const byId = new Map<string, MenuRecord>();
+  menus.forEach((menu) => byId.set(menu.menu_id, menu));
+
+  menus.forEach((menu) => {
+    if (!menu.parent) return;
+
+    if (menu.parent === menu.menu_id) {
+      issues.push({
+        menu_id: menu.menu_id,
+        code: "self_parent",
+        message: `Menu ${menu.menu_id} cannot be its own parent`,
+      });
+      return;
+    }
+
+    const parent = byId.get(menu.parent);
+    if (!parent) {
+      issues.push({
+        menu_id: menu.menu_id,
+        code: "orphan",
+        message: `Parent ${menu.parent} of menu ${menu.menu_id} does not exist`,
+      });
+      return;
+    }
+
+    if (parent.type !== menu.type) {
+      issues.push({
+        menu_id: menu.menu_id,
+        code: "type_mismatch",
+        message: `Menu ${menu.menu_id} (${menu.type}) cannot be a child of ${parent.menu_id} (${parent.type})`,
+      });
+    }
+
+    // Walk up the parent chain to detect cycles and measure depth
+    const chain = [menu.menu_id];
+    let current: MenuRecord | undefined = parent;
+    while (current) {
+      if (chain.includes(current.menu_id)) {
+        issues.push({
+          menu_id: menu.menu_id,
+          code: "cycle",
+          message: `Menu ${menu.menu_id} is part of a parent cycle: ${[...chain, current.menu_id].join(" -> ")}`,
+        });
+        return;
+      }
+      chain.push(current.menu_id);
+      current = current.parent ? byId.get(current.parent) : undefined;
+    }
+
+    if (chain.length > MAX_MENU_DEPTH) {
+      issues.push({
+        menu_id: menu.menu_id,
+        code: "too_deep",
+        message: `Menu ${menu.menu_id} is nested ${chain.length} levels deep (max ${MAX_MENU_DEPTH})`,
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Check that writing menus keeps the tree valid, throw 400 otherwise
+ * Only issues on the written menus and their descendants block the write
+ * @param menu Menu(s) about to be written (menu_id, parent, type)
+ * @param previousId Previous menu_id when a single menu is being renamed
+ */
+function assertMenuTree(
+  menu: MenuRecord | MenuRecord[],
+  previousId?: string
+): void {
+  const written = Array.isArray(menu) ? menu : [menu];
+  const replaced = new Set(written.map((item) => item.menu_id));
+  if (previousId) replaced.add(previousId);
+
+  const menus = loadMenuStructure().filter(
+    (item) => !replaced.has(item.menu_id)
+  );
+  written.forEach((item) => menus.push({ ...item }));
+
+  // The written menus and everything below them
+  const affected = collectDescendants(
+    menus,
+    written.map((item) => item.menu_id)
+  );
+
+  const issues = validateMenuTree(menus).filter((issue) =>
+    affected.has(issue.menu_id)
+  );
+  if (issues.length > 0) {
+    throw new Exception(issues.map((issue) => issue.message).join("; "), 400);
+  }
+}
+
+/**
+ * Collect the given menus and all of their descendants
+ * @returns Set of menu_ids (roots included)
+ */
+function collectDescendants(
+  menus: MenuRecord[],
+  rootIds: string[]
+): Set<string> {
+  const result = new Set<string>(rootIds);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    menus.forEach((item) => {
+      if (item.parent && result.has(item.parent) && !result.has(item.menu_id)) {
+        result.add(item.menu_id);
+        grew = true;
+      }
+    });
+  }
+  return result;
+}
+
+// ============ Move & Reorder ============
+
+/**
+ * Move a menu (with its subtree) under a new parent
+ * The subtree adopts the parent's type; pass parent null and a type to move to the root of a group.
+ * @param menuId Menu ID (menu_id) to move
+ * @param parent New parent menu_id, or null for a root item
+ * @param options type: target group for root moves; position: index among the new siblings the caller can write (default last)
+ * @returns Number of rows updated
+ * @test YAO_MENU_ALLOW_ANONYMOUS=1 yao run scripts.menu.Move items_chat items_assistants
+ * @test YAO_MENU_ALLOW_ANONYMOUS=1 yao run scripts.menu.Move items_chat null '{"type":"quick","position":0}'
+ */
+function Move(
+  menuId: string,
+  parent: string | null,
+  options: { type?: "items" | "setting" | "quick"; position?: number } = {}
+): { updated: number } {
+  const grant = requireMenuScope("write");
+  const menu = findMenuByMenuId(menuId);
+  checkMenuPermission(menu.id!);
+
+  const target = parent ? findParentMenu(parent, grant) : null;
+  const type = target ? target.type : options.type || menu.type;
+  if (!["items", "setting", "quick"].includes(type)) {
+    throw new Exception(`Invalid type: ${type}`, 400);
+  }
+
+  // Subtree rows whose type changes along with the move
+  const structure = loadMenuStructure();
+  const subtree = collectDescendants(structure, [menuId]);
+  const retyped = structure.filter(
+    (item) =>
+      subtree.has(item.menu_id) && item.menu_id !== menuId && item.type !== type
+  );
+  retyped.forEach((item) => checkMenuPermission(item.id!));
+
+  const moved: MenuRecord = { ...menu, parent: parent || null, type };
+  assertMenuTree([
+    moved,
+    ...retyped.map((item) => ({ ...item, type }) as MenuRecord),
+  ]);
+
+  const batch = generateBatchId("move");
+  Process("models.menu.Update", menu.id, { parent: moved.parent, type });
+  recordRevision("update", menu, moved, batch);
+  retyped.forEach((item) => {
+    Process("models.menu.Update", item.id, { type });
+    recordRevision("update", item, { ...item, type }, batch);
+  });
+
+  // Place the menu among the new siblings the caller can write
+  const siblings = loadSiblings(parent || type, grant).filter(
+    (item) => item.menu.menu_id !== menuId
+  );
+  const writable = siblings.filter((item) => item.writable);
+  const position =
+    options.position === undefined
+      ? writable.length
+      : Math.max(0, Math.min(options.position, writable.length));
+  const order = writable.map((item) => item.menu);
+  order.splice(position, 0, { ...moved, sort: undefined });
+  const sorted = writeSiblingOrder(order, siblings, batch);
+
+  invalidateMenuCache();
+  return { updated: 1 + retyped.length + sorted };
+}
+
+/**
+ * Reorder the children of a parent (or the root items of a group) in one call
+ * Listed menus come first, in order; unlisted siblings keep their order after them.
+ * @param parent Parent menu_id, or menu type ("items", "setting", "quick") for root items
+ * @param menuIds Ordered menu_ids
+ * @returns Number of rows updated
+ * @test YAO_MENU_ALLOW_ANONYMOUS=1 yao run scripts.menu.Reorder items '["items_chat","items_assistants","items_mission_control"]'
+ */
+function Reorder(parent: string, menuIds: string[]): { updated: number } {
+  if (!parent) {
+    throw new Exception("parent is required", 400);
+  }
+  if (!Array.isArray(menuIds) || menuIds.length === 0) {
+    throw new Exception("menuIds must be a non-empty array", 400);
+  }
+  const grant = requireMenuScope("write");
+
+  const siblings = loadSiblings(parent, grant);
+  const writable = new Map<string, MenuRecord>();
+  siblings.forEach((item) => {
+    if (item.writable) writable.set(item.menu.menu_id, item.menu);
+  });
+  const unknown = menuIds.filter((id) => !writable.has(id));
+  if (unknown.length > 0) {
+    throw new Exception(
+      `Not writable children of ${parent}: ${unknown.join(", ")}`,
+      400
+    );
+  }
+
+  const ids = [
+    ...new Set(menuIds),
+    ...[...writable.keys()].filter((id) => !menuIds.includes(id)),
+  ];
+  const updated = writeSiblingOrder(
+    ids.map((id) => writable.get(id)!),
+    siblings,
+    generateBatchId("reorder")
+  );
+
+  invalidateMenuCache();
+  return { updated };
+}
+
+/**
+ * Siblings in a group that the caller can see (as in Get), by current sort
+ * Rows are writable with app:menu:admin, otherwise only the caller's own menus
+ * (team or personal, see ownsMenuState) that pass checkMenuPermission.
+ * @param group Parent menu_id, or menu type for root items
+ * @param grant Caller's grant
+ */
+function loadSiblings(
+  group: string,
+  grant: MenuGrant
+): { menu: MenuRecord; writable: boolean }[] {
+  const isType = ["items", "setting", "quick"].includes(group);
+  const wheres: any[] = isType
+    ? [
+        { column: "parent", op: "null" },
+        { column: "type", value: group },
+      ]
+    : [{ column: "parent", value: group }];
+  if (!grant.system) {
+    wheres.push(...buildAuthFilters(grant.authInfo, true));
+  }
+  const menus = Process("models.menu.Get", {
+    wheres,
+    orders: [
+      { column: "sort", option: "asc" },
+      { column: "id", option: "asc" },
+    ],
+  }) as MenuRecord[];
+
+  const admin = hasMenuScope(grant, "app:menu:admin");
+  return menus.map((menu) => ({
+    menu,
+    writable: admin || canWriteMenu(menu, grant.authInfo),
+  }));
+}
+
+/**
+ * Find a menu to move under, with the visibility and write rules of loadSiblings
+ * Menus the caller cannot see are reported as not found (404).
+ */
+function findParentMenu(menuId: string, grant: MenuGrant): MenuRecord {
+  const wheres: any[] = [{ column: "menu_id", value: menuId }];
+  if (!grant.system) {
+    wheres.push(...buildAuthFilters(grant.authInfo, true));
+  }
+  const menus = Process("models.menu.Get", {
+    wheres,
+    limit: 1,
+  }) as MenuRecord[];
+  if (!menus || menus.length === 0) {
+    throw new Exception(`Menu not found: ${menuId}`, 404);
+  }
+  if (
+    !hasMenuScope(grant, "app:menu:admin") &&
+    !canWriteMenu(menus[0], grant.authInfo)
+  ) {
+    throw new Exception(`No permission to add children to ${menuId}`, 403);
+  }
+  return menus[0];
+}
+
+/**
+ * Whether a non-admin caller may rewrite a sibling's sort
+ */
+function canWriteMenu(
+  menu: MenuRecord,
+  authInfo: AuthorizedInfo | null
+): boolean {
+  if (!ownsMenuState(menu, authInfo)) return false;
+  try {
+    checkMenuPermission(menu.id!, menu);
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * Rewrite sort so the caller's siblings follow the given order
+ * When every sibling is in the list, sorts are renumbered in steps of MENU_SORT_STEP.
+ * Otherwise the other rows (other teams', public seed menus) keep their sort and the
+ * listed rows reuse the sort slots they already occupy, so they stay interleaved
+ * with the rows they cannot write; a row without a slot (a moved menu) gets one at the end.
+ * @param menus Writable siblings in the new order
+ * @param siblings Every visible sibling, as loaded by loadSiblings
+ * @returns Number of rows updated
+ */
+function writeSiblingOrder(
+  menus: MenuRecord[],
+  siblings: { menu: MenuRecord; writable: boolean }[],
+  batch: string
+): number {
+  const fixed = siblings.filter((item) => !item.writable);
+  let sorts: number[];
+  if (fixed.length === 0) {
+    sorts = menus.map((_, index) => (index + 1) * MENU_SORT_STEP);
+  } else {
+    const max = Math.max(0, ...siblings.map((item) => item.menu.sort ?? 0));
+    let next = max;
+    sorts = menus
+      .map((menu) =>
+        menu.sort === undefined ? (next += MENU_SORT_STEP) : menu.sort
+      )
+      .sort((a, b) => a - b);
+    // Equal slots (e.g. several rows at the default 0) cannot express an order
+    for (let i = 1; i < sorts.length; i++) {
+      if (sorts[i] <= sorts[i - 1]) sorts[i] = sorts[i - 1] + 1;
+    }
+  }
+
+  let updated = 0;
+  menus.forEach((menu, index) => {
+    const sort = sorts[index];
+    if (menu.sort === sort) return;
+    Process("models.menu.Update", menu.id, { sort });
+    recordRevision("update", menu, { ...menu, sort }, batch);
+    updated++;
+  });
+  return updated;
+}
+
+/**
+ * Import menu from the versioned export format or the flow output format
+ * Import is all-or-nothing: the whole payload is validated first, then applied
+ * with a snapshot of the affected rows that is restored if any write fails.
+ * Records are keyed on menu_id, so re-importing the same payload changes nothing.
+ * Requires app:menu:write:* (app:menu:admin with clear); public/team-shared records need their scopes too.
+ * @param data Menu data (versioned export or flow output format)
+ * @param options Import options, dry_run returns the diff without writing
+ * @returns Import result, with per-item errors (JSON path) when rejected
+ * @test YAO_MENU_ALLOW_ANONYMOUS=1 yao run scripts.menu.Import '{"items":[{"name":"Test","path":"/test"}],"setting":[],"quick":[]}' '{"locale":"en"}'
+ * @test YAO_MENU_ALLOW_ANONYMOUS=1 yao run scripts.menu.Import '{"version":1,"menus":[{"menu_id":"items_test","name":{"en":"Test"},"type":"items"}]}' '{"dry_run":true}'
+ */
+function Import(
+  data: MenuExport | { items?: any[]; setting?: any[]; quick?: any[] },
+  options: { locale?: string; clear?: boolean; dry_run?: boolean } = {}
+): MenuImportResult {
+  options = options || {}; // $payload.options is null when omitted over HTTP
+
+  // Clearing removes menus the caller may not own, so it needs the admin scope
+  const grant = requireMenuScope(options.clear ? "admin" : "write");
+
+  if (isMenuExport(data) && data.version > MENU_EXPORT_VERSION) {
+    throw new Exception(
+      `Unsupported menu export version: ${data.version}`,
+      400
+    );
+  }
+
+  // Normalize payload into flat records (parents first) with their JSON paths
+  const entries = isMenuExport(data)
+    ? flattenExportTree(data.menus)
+    : flattenFlowTree(data, options.locale || "en");
+
+  // Index current records by menu_id
+  const existing = new Map<string, MenuRecord>();
+  const menuIds = entries.map((entry) => entry.record.menu_id).filter(Boolean);
+  if (menuIds.length > 0) {
+    const current = Process("models.menu.Get", {
+      wheres: [{ column: "menu_id", op: "in", value: menuIds }],
+    }) as MenuRecord[];
+    current.forEach((menu) => existing.set(menu.menu_id, menu));
+  }
+
+  const result: MenuImportResult = {
+    success: 0,
+    failed: 0,
+    created: 0,
+    updated: 0,
+    unchanged: 0,
+    dry_run: !!options.dry_run,
+    changes: [],
+  };
+
+  // With clear, only the menus the caller can see (as in Export) are replaced
+  const scope = options.clear ? loadImportScope(grant) : [];
+
+  // Validate the whole payload before writing anything
+  const errors = validateImport(entries, existing, scope, grant);
+  if (errors.length > 0) {
+    result.failed = errors.length;
+    result.errors = errors;
+    return result;
+  }
+
+  entries.forEach(({ record }) => {
+    const change = diffMenuRecord(existing.get(record.menu_id) || null, record);
+    result.changes!.push(change);
+    if (change.action === "create") {
+      result.created!++;
+    } else if (change.action === "update") {
+      result.updated!++;
+    } else {
+      result.unchanged!++;
+    }
+  });
+
+  if (options.dry_run) {
+    return result;
+  }
+
+  const failure = applyImport(entries, existing, result.changes!, scope, grant);
+  if (failure) {
+    result.failed = 1;
+    result.errors = [failure];
+    result.rolled_back = true;
+    return result;
+  }
+
+  result.success = entries.length;
+  return result;
+}
+
+/**
+ * Export menus in the versioned format
+ * Keeps menu_id, all i18n maps, metadata and disabled menus, so Import can restore them as-is
+ * @param locale When given, export the flow output format for that locale instead (as before)
+ * @returns Versioned menu export, or flow output when a locale is given
+ * @test yao run scripts.menu.Export
+ * @test yao run scripts.menu.Export en
+ */
+function Export(locale: string = ""): MenuExport | MenuOutput {
+  if (locale) {
+    return Get(locale);
+  }
+
+  const authInfo = Authorized() as AuthorizedInfo | null;
+  const menus = Process("models.menu.Get", {
+    wheres: buildAuthFilters(authInfo, true),
+    orders: [{ column: "sort", option: "asc" }],
+  }) as MenuRecord[];
+
+  return {
+    version: MENU_EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    menus: buildExportTree(menus),
+  };
+}
+
+// ============ Export Format ============
+
+/**
+ * Check whether import data is in the versioned export format
+ */
+function isMenuExport(data: any): data is MenuExport {
+  return (
+    !!data && typeof data.version === "number" && Array.isArray(data.menus)
+  );
+}
+
+/**
+ * Build the nested export tree from flat records
+ */
+function buildExportTree(menus: MenuRecord[]): MenuExportNode[] {
+  const nodes = new Map<string, MenuExportNode>();
+  menus.forEach((menu) => {
+    const node: any = { menu_id: menu.menu_id };
+    MENU_FIELDS.forEach((field) => {
+      if (field !== "parent") {
+        node[field] = normalizeMenuField(field, (menu as any)[field]);
+      }
+    });
+    nodes.set(menu.menu_id, node);
+  });
+
+  const roots: MenuExportNode[] = [];
+  menus.forEach((menu) => {
+    const node = nodes.get(menu.menu_id)!;
+    const parent = menu.parent ? nodes.get(menu.parent) : undefined;
+    if (parent && menu.parent !== menu.menu_id) {
+      parent.children = parent.children || [];
+      parent.children.push(node);
+    } else {
+      // Keep a dangling parent reference so the import restores it unchanged
+      if (menu.parent) node.parent = menu.parent;
+      roots.push(node);
+    }
+  });
+
+  return roots;
+}
+
+/**
+ * Flatten export nodes into records, parents before children
+ * @returns Records with their JSON path in the export payload
+ */
+function flattenExportTree(
+  nodes: MenuExportNode[],
+  parent: string | null = null,
+  path: string = "$.menus"
+): { record: MenuRecord; path: string }[] {
+  const result: { record: MenuRecord; path: string }[] = [];
+  (nodes || []).forEach((node, index) => {
+    const nodePath = `${path}[${index}]`;
+    const record: any = { menu_id: node.menu_id };
+    MENU_FIELDS.forEach((field) => {
+      if (field in node) record[field] = (node as any)[field];
+    });
+    record.parent = parent ?? node.parent ?? null;
+    result.push({ record, path: nodePath });
+    if (Array.isArray(node.children)) {
+      result.push(
+        ...flattenExportTree(
+          node.children,
+          node.menu_id,
+          `${nodePath}.children`
+        )
+      );
+    }
+  });
+  return result;
+}
+
+/**
+ * Flatten the flow output format into records, parents before children
+ * String names/descriptions are stored under the import locale
+ */
+function flattenFlowTree(
+  data: { items?: any[]; setting?: any[]; quick?: any[] },
+  locale: string
+): { record: MenuRecord; path: string }[] {
+  const result: { record: MenuRecord; path: string }[] = [];
+
+  const walk = (
+    items: any[],
+    type: "items" | "setting" | "quick",
+    path: string,
+    parentMenuId: string | null
+  ) => {
+    (items || []).forEach((item, index) => {
+      const itemPath = `${path}[${index}]`;
+      if (!item || typeof item !== "object") {
+        result.push({ record: { menu_id: "" } as MenuRecord, path: itemPath });
+        return;
+      }
+
+      const menuId =
+        item.menu_id || generateMenuId(item.name || "", type, index);
+      result.push({
+        path: itemPath,
+        record: {
+          menu_id: menuId,
+          name:
+            typeof item.name === "string" ? { [locale]: item.name } : item.name,
+          description: item.description
+            ? typeof item.description === "string"
+              ? { [locale]: item.description }
+              : item.description
+            : null,
+          icon: item.icon,
+          path: item.path,
+          type,
+          sort: item.sort ?? index,
+          status: "enabled",
+          public: item.public ?? false,
+          share: item.share ?? "private",
+          roles: item.roles ?? null,
+          features: item.features ?? null,
+          parent: parentMenuId,
+        },
+      });
+
+      if (Array.isArray(item.children)) {
+        walk(item.children, type, `${itemPath}.children`, menuId);
+      }
+    });
+  };
+
+  walk(data.items || [], "items", "$.items", null);
+  walk(data.setting || [], "setting", "$.setting", null);
+  walk(data.quick || [], "quick", "$.quick", null);
+
+  return result;
+}
+
+/**
+ * Validate an import payload as a whole
+ * Checks required fields, duplicate menu_ids, tree integrity of the resulting
+ * menu set and write permission on the records that would be overwritten
+ * @param scope Rows clear replaces (empty without clear)
+ */
+function validateImport(
+  entries: { record: MenuRecord; path: string }[],
+  existing: Map<string, MenuRecord>,
+  scope: MenuRecord[],
+  grant: MenuGrant
+): MenuImportError[] {
+  const errors: MenuImportError[] = [];
+  const paths = new Map<string, string>();
+
+  entries.forEach(({ record, path }) => {
+    const fail = (message: string, code: number = 400, field?: string) =>
+      errors.push({
+        path: field ? `${path}.${field}` : path,
+        menu_id: record.menu_id || undefined,
+        message: field ? `${field} ${message}` : message,
+        code,
+      });
+
+    if (!record.menu_id) {
+      fail("menu_id is required");
+      return;
+    }
+    if (paths.has(record.menu_id)) {
+      fail(
+        `Duplicate menu_id ${record.menu_id} (also at ${paths.get(record.menu_id)})`
+      );
+      return;
+    }
+    paths.set(record.menu_id, path);
+
+    // Field-level schema errors, reported at the field's JSON path
+    validateMenuSchema(record, "MenuRecord").forEach((error) =>
+      fail(error.message, 400, error.field)
+    );
+    try {
+      assertMenuTarget(record.target);
+    } catch (e: any) {
+      fail(e.message || String(e), e.code || 400);
+    }
+
+    const current = existing.get(record.menu_id) || null;
+    try {
+      if (current) checkMenuPermission(current.id!);
+      assertMenuVisibilityScope(grant, record, current);
+      assertMenuBadge(grant, record, current);
+    } catch (e: any) {
+      fail(e.message || String(e), e.code || 403);
+    }
+  });
+
+  // Tree integrity of the menu set after import
+  const cleared = new Set(scope.map((menu) => menu.menu_id));
+  const menus = loadMenuStructure().filter(
+    (menu) => !paths.has(menu.menu_id) && !cleared.has(menu.menu_id)
+  );
+  entries.forEach(({ record }) => {
+    if (record.menu_id) menus.push(record);
+  });
+  validateMenuTree(menus).forEach((issue) => {
+    const path = paths.get(issue.menu_id);
+    if (path) {
+      errors.push({
+        path,
+        menu_id: issue.menu_id,
+        message: issue.message,
+        code: 400,
+      });
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Menus an import with clear replaces: what the caller can see (buildAuthFilters,
+ * disabled included), every menu only for trusted system calls
+ */
+function loadImportScope(grant: MenuGrant): MenuRecord[] {
+  return Process("models.menu.Get", {
+    wheres: grant.system ? [] : buildAuthFilters(grant.authInfo, true),
+  }) as MenuRecord[];
+}
+
+/**
+ * Apply a validated import through the script Save path; on failure restore the
+ * snapshot, drop the revisions recorded so far and report the failing item
+ * With clear, menus of the scope missing from the payload are soft-deleted last,
+ * so a failed write never leaves the menu half-empty
+ * @returns The error that caused the rollback, or null on success
+ */
+function applyImport(
+  entries: { record: MenuRecord; path: string }[],
+  existing: Map<string, MenuRecord>,
+  changes: MenuChange[],
+  scope: MenuRecord[],
+  grant: MenuGrant
+): MenuImportError | null {
+  const payloadIds = new Set(entries.map((entry) => entry.record.menu_id));
+
+  // Rows the import may overwrite or delete, restored on failure
+  const snapshot = [...existing.values()];
+  scope.forEach((menu) => {
+    if (!existing.has(menu.menu_id)) snapshot.push(menu);
+  });
+
+  // Soft-deleted rows still own their menu_id, so they are revived instead of re-created
+  const trashed = getTrashedMenus([...payloadIds]);
+  const trashedById = new Map<string, MenuRecord>();
+  trashed.forEach((menu) => trashedById.set(menu.menu_id, menu));
+
+  const batch = generateBatchId("import");
+  const created: string[] = [];
+  const revived: MenuRecord[] = [];
+  const deleted: number[] = [];
+  let current: { record: MenuRecord; path: string } | null = null;
+
+  try {
+    entries.forEach((entry, index) => {
+      current = entry;
+      const change = changes[index];
+      if (change.action === "unchanged") return;
+
+      const record: MenuRecord = { ...entry.record };
+      const stored =
+        existing.get(record.menu_id) || trashedById.get(record.menu_id);
+      if (stored) {
+        if (!existing.has(record.menu_id)) {
+          undeleteMenus([stored.id!]);
+          revived.push(stored);
+        }
+      } else {
+        created.push(record.menu_id);
+      }
+      saveMenu(record, grant, "import", batch);
+    });
+
+    current = null;
+    scope.forEach((menu) => {
+      if (payloadIds.has(menu.menu_id)) return;
+      Process("models.menu.Delete", menu.id);
+      deleted.push(menu.id!);
+    });
+  } catch (e: any) {
+    console.error("Menu import failed, restoring snapshot", e);
+    rollbackImport(snapshot, changes, created, revived, deleted, batch);
+    const failed = current as { record: MenuRecord; path: string } | null;
+    return {
+      path: failed ? failed.path : "$",
+      menu_id: failed ? failed.record.menu_id : undefined,
+      message: e.message || String(e),
+      code: 500,
+    };
+  }
+
+  scope.forEach((menu) => {
+    if (deleted.includes(menu.id!)) {
+      recordRevision("import", menu, null, batch);
+    }
+  });
+  invalidateMenuCache();
+
+  return null;
+}
+
+/**
+ * Restore the pre-import state: drop created rows, revert updated rows,
+ * re-trash revived rows, bring back rows removed by clear and drop the
+ * import's revisions
+ */
+function rollbackImport(
+  snapshot: MenuRecord[],
+  changes: MenuChange[],
+  created: string[],
+  revived: MenuRecord[],
+  deleted: number[],
+  batch: string
+): void {
+  const step = (label: string, fn: () => void) => {
+    try {
+      fn();
+    } catch (e) {
+      console.error(`Menu import rollback failed (${label})`, e);
+    }
+  };
+
+  if (created.length > 0) {
+    step("created", () =>
+      Process("models.menu.DestroyWhere", {
+        wheres: [{ column: "menu_id", op: "in", value: created }],
+      })
+    );
+  }
+
+  const updated = new Set(
+    changes.filter((c) => c.action === "update").map((c) => c.menu_id)
+  );
+  snapshot.forEach((menu) => {
+    if (updated.has(menu.menu_id)) {
+      step(menu.menu_id, () => Process("models.menu.Save", menu));
+    }
+  });
+
+  revived.forEach((menu) => {
+    step(menu.menu_id, () => {
+      Process("models.menu.Save", menu);
+      Process("models.menu.Delete", menu.id);
+    });
+  });
+
+  if (deleted.length > 0) {
+    step("deleted", () => undeleteMenus(deleted));
+  }
+
+  step("revisions", () =>
+    Process("models.menu.revision.DestroyWhere", {
+      wheres: [{ column: "batch", value: batch }],
+    })
+  );
+
+  // Trees cached while the import was half-applied are stale
+  invalidateMenuCache();
+}
+
+// ============ Soft Delete Helpers ============
+
+/**
+ * Get soft-deleted menu rows by menu_id (models.menu.Get never returns them)
+ */
+function getTrashedMenus(menuIds: string[]): MenuRecord[] {
+  if (menuIds.length === 0) {
+    return [];
+  }
+  const qb = new Query("default");
+  const rows = qb.Get({
+    sql: {
+      stmt: `SELECT * FROM ${MENU_TABLE} WHERE deleted_at IS NOT NULL AND menu_id IN (${menuIds
+        .map(() => "?")
+        .join(",")})`,
+      args: menuIds,
+    },
+  }) as MenuRecord[];
+  return (rows || []).map(decodeMenuRow);
+}
+
+/**
+ * Decode the JSON columns of a raw menu row, as models.menu.Get would,
+ * so the row can be saved back without double-encoding
+ */
+function decodeMenuRow(row: MenuRecord): MenuRecord {
+  const decoded: Record<string, any> = { ...row };
+  MENU_JSON_FIELDS.forEach((field) => {
+    const value = decoded[field];
+    if (typeof value !== "string") return;
+    try {
+      decoded[field] = value === "" ? null : JSON.parse(value);
+    } catch (e) {
+      // Not JSON, keep the stored text
+    }
+  });
+  return decoded as MenuRecord;
+}
+
+/**
+ * Clear deleted_at on soft-deleted menu rows
+ */
+function undeleteMenus(ids: number[]): void {
+  if (ids.length === 0) {
+    return;
+  }
+  const qb = new Query("default");
+  qb.Run({
+    sql: {
+      stmt: `UPDATE ${MENU_TABLE} SET deleted_at = NULL WHERE id IN (${ids
+        .map(() => "?")
+        .join(",")})`,
+      args: ids,
+    },
+  });
+}
+
+/**
+ * Compute the field-level change between a stored record and an incoming one
+ * Fields absent from the incoming record are left untouched
+ */
+function diffMenuRecord(
+  before: MenuRecord | null,
+  after: MenuRecord
+): MenuChange {
+  if (!before) {
+    return { menu_id: after.menu_id, action: "create" };
   }
 
-  // Add children recursively
-  if (menu.children && menu.children.length > 0) {
-    // Sort children by sort field
-    menu.children.sort((a, b) => (a.sort ?? 0) - (b.sort ?? 0));
-    result.children = menu.children.map((child) =>
-      formatMenuItem(child as MenuRecord & { children?: MenuRecord[] }, locale)
-    );
-  }
+  const fields: Record<string, { before: any; after: any }> = {};
+  MENU_FIELDS.forEach((field) => {
+    if (!(field in after)) return;
+    const oldValue = normalizeMenuField(field, (before as any)[field]);
+    const newValue = normalizeMenuField(field, (after as any)[field]);
+    if (stableStringify(oldValue) !== stableStringify(newValue)) {
+      fields[field] = { before: oldValue, after: newValue };
+    }
+  });
 
-  return result;
+  return Object.keys(fields).length > 0
+    ? { menu_id: after.menu_id, action: "update", fields }
+    : { menu_id: after.menu_id, action: "unchanged" };
 }
 
 /**
- * Localize name based on locale with fallback
- * e.g., "zh" will match "zh-cn", "zh-tw", etc.
+ * Normalize a stored field value for comparison and export
+ * (null for empty, booleans for flags, integers for sort)
  */
-function localizeName(
-  name: string | Record<string, string>,
-  locale: string
-): string {
-  if (typeof name === "string") {
-    return name;
+function normalizeMenuField(field: string, value: any): any {
+  if (value === undefined || value === "") {
+    return null;
   }
-
-  // Exact match
-  if (name[locale]) {
-    return name[locale];
+  if (field === "public" || field === "system") {
+    return value === true || value === 1 || value === "1" || value === "true";
   }
+  if (field === "sort") {
+    return Number(value) || 0;
+  }
+  return value;
+}
 
-  // Fallback: try to match by language prefix (e.g., "zh" matches "zh-cn")
-  const localeLower = locale.toLowerCase();
-  for (const key of Object.keys(name)) {
-    const keyLower = key.toLowerCase();
-    // Match prefix: "zh" matches "zh-cn", "zh-tw"
-    if (
-      keyLower.startsWith(localeLower + "-") ||
-      localeLower.startsWith(keyLower + "-")
-    ) {
-      return name[key];
-    }
-    // Match same prefix: "zh" matches "zh", "zh-cn" matches "zh"
-    if (
-      keyLower === localeLower ||
-      keyLower.split("-")[0] === localeLower.split("-")[0]
-    ) {
-      return name[key];
-    }
+/**
+ * JSON.stringify with sorted object keys
+ */
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
   }
+  if (value && typeof value === "object") {
+    const keys = Object.keys(value).sort();
+    return `{${keys.map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+// ============ Team Templates ============
+
+/**
+ * List menu templates
+ * @param locale Locale for names/descriptions (default: negotiated)
+ * @returns Templates with the number of menus in each
+ * @test yao run scripts.menu.Templates
+ */
+function Templates(locale: string = ""): {
+  template_id: string;
+  name: string;
+  description: string;
+  count: number;
+}[] {
+  const locales = resolveLocales(locale, Authorized() as AuthorizedInfo | null);
+  const templates = Process("models.menu.template.Get", {
+    orders: [{ column: "template_id", option: "asc" }],
+  }) as MenuTemplate[];
 
-  // Final fallback: English or first available
-  return name["en"] || Object.values(name)[0] || "";
+  return templates.map((template) => ({
+    template_id: template.template_id,
+    name: localize(template.name, locales),
+    description: localize(template.description, locales),
+    count: flattenExportTree(template.menus || []).length,
+  }));
 }
 
 /**
- * Create a new menu item
- * @param data Menu item data
- * @returns Created menu ID
- * @test yao run scripts.menu.Create '{"menu_id":"test","name":{"en":"Test","zh-cn":"测试"},"type":"items"}'
+ * Create or replace a menu template (requires app:menu:admin)
+ * Pass menus in the export node format, or team_id to capture that team's current menu tree.
+ * @param templateId Template name, e.g. "sales"
+ * @param data name, description, and menus or team_id
+ * @returns Number of menus in the template
+ * @test YAO_MENU_ALLOW_ANONYMOUS=1 yao run scripts.menu.SaveTemplate sales '{"name":{"en":"Sales Team"},"team_id":"team-001"}'
  */
-function Create(data: MenuRecord): number {
-  // Validate required fields
-  if (!data.menu_id) {
-    throw new Exception("menu_id is required", 400);
+function SaveTemplate(
+  templateId: string,
+  data: {
+    name: Record<string, string>;
+    description?: Record<string, string> | null;
+    menus?: MenuExportNode[];
+    team_id?: string;
+  }
+): { template_id: string; count: number } {
+  requireMenuScope("admin");
+  if (!templateId) {
+    throw new Exception("template_id is required", 400);
   }
-  if (!data.name || Object.keys(data.name).length === 0) {
+  if (!data?.name || Object.keys(data.name).length === 0) {
     throw new Exception("name is required", 400);
   }
-  if (!data.type) {
-    throw new Exception("type is required", 400);
+
+  const menus = data.team_id ? loadTeamMenuTree(data.team_id) : data.menus;
+  if (!Array.isArray(menus) || menus.length === 0) {
+    throw new Exception("menus or team_id with menus is required", 400);
   }
 
-  // Set defaults
-  data.sort = data.sort ?? 0;
-  data.status = data.status ?? "enabled";
-  data.public = data.public ?? false;
-  data.share = data.share ?? "private";
+  const existing = Process("models.menu.template.Get", {
+    wheres: [{ column: "template_id", value: templateId }],
+    limit: 1,
+  }) as MenuTemplate[];
+
+  Process("models.menu.template.Save", {
+    ...(existing.length > 0 ? { id: existing[0].id } : {}),
+    template_id: templateId,
+    name: data.name,
+    description: data.description ?? null,
+    menus,
+  });
 
-  return Process("models.menu.Create", data);
+  return { template_id: templateId, count: flattenExportTree(menus).length };
 }
 
 /**
- * Update a menu item
- * @param id Menu ID (primary key)
- * @param data Menu item data
- * @returns Updated menu
- * @test yao run scripts.menu.Update 1 '{"name":{"en":"Updated"}}'
+ * Delete a menu template (requires app:menu:admin)
+ * Menus already applied to teams are kept.
+ * @param templateId Template name
+ * @test YAO_MENU_ALLOW_ANONYMOUS=1 yao run scripts.menu.DeleteTemplate sales
  */
-function Update(id: number, data: Partial<MenuRecord>): void {
-  if (!id) {
-    throw new Exception("id is required", 400);
-  }
+function DeleteTemplate(templateId: string): void {
+  requireMenuScope("admin");
+  const template = findTemplate(templateId);
+  Process("models.menu.template.Delete", template.id);
+}
 
-  // Check permission before update
-  checkMenuPermission(id);
+/**
+ * Apply a template to a team: clone its tree with fresh menu_ids owned by the team
+ * Applying to your own team needs app:menu:write:*, any other team needs system:admin.
+ * @param templateId Template name
+ * @param teamId Target team (default: the caller's team)
+ * @returns Created menus, keyed by template menu_id
+ * @test YAO_MENU_ALLOW_ANONYMOUS=1 yao run scripts.menu.ApplyTemplate sales team-001
+ */
+function ApplyTemplate(
+  templateId: string,
+  teamId: string = ""
+): MenuCloneResult {
+  const grant = requireMenuScope("write");
+  const target = teamId || String(grant.authInfo?.team_id || "");
+  if (!target) {
+    throw new Exception("team_id is required", 400);
+  }
+  if (String(grant.authInfo?.team_id || "") !== target) {
+    requireSystemAdmin();
+  }
 
-  Process("models.menu.Update", id, data);
+  const template = findTemplate(templateId);
+  return cloneMenuTree(
+    template.menus || [],
+    target,
+    generateBatchId("template"),
+    grant
+  );
 }
 
 /**
- * Save a menu item (create or update)
- * @param data Menu item data
- * @returns Menu ID
- * @test yao run scripts.menu.Save '{"menu_id":"test","name":{"en":"Test"},"type":"items"}'
+ * Copy one team's menu tree to another team (system:admin only)
+ * Only menus owned by the source team are copied; public menus are shared already.
+ * @param fromTeamId Source team
+ * @param toTeamId Target team
+ * @returns Created menus, keyed by source menu_id
+ * @test YAO_MENU_ALLOW_ANONYMOUS=1 yao run scripts.menu.CopyToTeam team-001 team-002
  */
-function Save(data: MenuRecord): number {
-  if (!data.menu_id) {
-    throw new Exception("menu_id is required", 400);
+function CopyToTeam(fromTeamId: string, toTeamId: string): MenuCloneResult {
+  const grant = requireSystemAdmin();
+  if (!fromTeamId || !toTeamId) {
+    throw new Exception("fromTeamId and toTeamId are required", 400);
+  }
+  if (fromTeamId === toTeamId) {
+    throw new Exception("Source and target team are the same", 400);
   }
 
-  // Check if menu exists by menu_id
-  const existing = Process("models.menu.Get", {
-    wheres: [{ column: "menu_id", value: data.menu_id }],
-    limit: 1,
-  }) as MenuRecord[];
+  const menus = loadTeamMenuTree(fromTeamId);
+  if (menus.length === 0) {
+    throw new Exception(`Team ${fromTeamId} has no menus`, 404);
+  }
+  return cloneMenuTree(menus, toTeamId, generateBatchId("copy"), grant);
+}
 
-  if (existing && existing.length > 0) {
-    // Check permission before update
-    checkMenuPermission(existing[0].id!);
-    data.id = existing[0].id;
+/**
+ * Find a template by template_id or throw 404
+ */
+function findTemplate(templateId: string): MenuTemplate {
+  if (!templateId) {
+    throw new Exception("template_id is required", 400);
   }
+  const templates = Process("models.menu.template.Get", {
+    wheres: [{ column: "template_id", value: templateId }],
+    limit: 1,
+  }) as MenuTemplate[];
+  if (!templates || templates.length === 0) {
+    throw new Exception(`Menu template not found: ${templateId}`, 404);
+  }
+  return templates[0];
+}
 
-  return Process("models.menu.Save", data);
+/**
+ * Menus owned by a team, as an export tree
+ */
+function loadTeamMenuTree(teamId: string): MenuExportNode[] {
+  const menus = Process("models.menu.Get", {
+    wheres: [{ column: "__yao_team_id", value: teamId }],
+    orders: [{ column: "sort", option: "asc" }],
+  }) as MenuRecord[];
+  return buildExportTree(menus);
 }
 
 /**
- * Delete a menu item
- * @param id Menu ID (primary key)
- * @test yao run scripts.menu.Delete 1
+ * Throw 403 unless the caller is system:admin (or root); trusted system calls pass
  */
-function Delete(id: number): void {
-  if (!id) {
-    throw new Exception("id is required", 400);
+function requireSystemAdmin(): MenuGrant {
+  const grant = resolveMenuGrant();
+  if (grant.system) return grant;
+  const roles = resolveMenuAccess(grant.authInfo).roles;
+  if (!roles.includes(ADMIN_ROLE) && !roles.includes(ROOT_ROLE)) {
+    throw new Exception(`Requires role ${ADMIN_ROLE}`, 403);
   }
+  return grant;
+}
 
-  // Check permission before delete
-  checkMenuPermission(id);
+/**
+ * Clone a menu tree into a team with fresh menu_ids
+ * Parents inside the tree are remapped; parents outside it (e.g. a seed menu) are kept.
+ * Clones are team-shared, never public or system; like Create, each clone needs
+ * the caller's visibility scopes (app:menu:share:team) and passes the badge/target checks.
+ */
+function cloneMenuTree(
+  nodes: MenuExportNode[],
+  teamId: string,
+  batch: string,
+  grant: MenuGrant
+): MenuCloneResult {
+  const entries = flattenExportTree(nodes);
+  const ids: Record<string, string> = {};
+  entries.forEach(({ record }, index) => {
+    ids[record.menu_id] = generateMenuId(record.name, record.type, index);
+  });
 
-  Process("models.menu.Delete", id);
+  const authInfo = Authorized() as AuthorizedInfo | null;
+  const records: MenuRecord[] = entries.map(({ record }) => ({
+    ...record,
+    menu_id: ids[record.menu_id],
+    parent: record.parent ? ids[record.parent] || record.parent : null,
+    public: false,
+    share: "team",
+    system: false,
+    __yao_team_id: teamId,
+    ...(authInfo?.user_id ? { __yao_created_by: authInfo.user_id } : {}),
+  }));
+
+  // Reject the whole clone if any record needs a scope the caller lacks or would break the tree
+  records.forEach((record) => {
+    assertMenuVisibilityScope(grant, record, null);
+    assertMenuBadge(grant, record, null);
+    assertMenuTarget(record.target);
+  });
+  assertMenuTree(records);
+
+  records.forEach((record) => {
+    Process("models.menu.Create", record);
+    recordRevision("create", null, record, batch);
+  });
+
+  invalidateMenuCache();
+  return { team_id: teamId, created: records.length, menu_ids: ids };
 }
 
+// ============ Change History ============
+
 /**
- * Check if user has permission to modify a menu
- * @param id Menu ID
+ * List revisions of a menu item, newest first
+ * Visibility follows Get: only revisions whose before or after state the caller
+ * could see (public, the caller's team, or the caller's personal menus) are listed.
+ * @param menuId Menu ID (menu_id)
+ * @param limit Maximum number of revisions
+ * @returns Revisions with actor, before/after state and timestamp
+ * @test yao run scripts.menu.Revisions items_chat
  */
-function checkMenuPermission(id: number): void {
+function Revisions(menuId: string, limit: number = 50): MenuRevision[] {
+  if (!menuId) {
+    throw new Exception("menu_id is required", 400);
+  }
   const authInfo = Authorized() as AuthorizedInfo | null;
+  const all = !authInfo && allowAnonymousWrites();
+  const rows = Process("models.menu.revision.Get", {
+    wheres: [{ column: "menu_id", value: menuId }],
+    orders: [{ column: "id", option: "desc" }],
+  }) as MenuRevision[];
+  return (rows || [])
+    .filter(
+      (row) =>
+        all ||
+        canSeeMenuState(row.before, authInfo) ||
+        canSeeMenuState(row.after, authInfo)
+    )
+    .slice(0, limit);
+}
 
-  // No auth info - allow (for admin/system calls)
-  if (!authInfo) {
-    return;
+/**
+ * Restore a single menu item to its state at a given time
+ * If the item did not exist at that time it is deleted
+ * @param menuId Menu ID (menu_id)
+ * @param at Point in time, e.g. "2026-01-31T12:00:00Z"
+ * @returns Whether the item changed
+ * @test YAO_MENU_ALLOW_ANONYMOUS=1 yao run scripts.menu.RestoreItem items_chat "2026-01-31T12:00:00Z"
+ */
+function RestoreItem(menuId: string, at: string): { changed: boolean } {
+  if (!menuId) {
+    throw new Exception("menu_id is required", 400);
   }
+  assertTime(at);
+  const grant = requireMenuScope("write");
 
-  const constraints = authInfo.constraints || {};
+  const state = menuStateAt(menuId, at);
+  if (state === undefined) {
+    throw new Exception(`No history for menu: ${menuId}`, 404);
+  }
 
-  // No constraints - allow
-  if (!constraints.owner_only && !constraints.team_only) {
-    return;
+  if (state) {
+    assertMenuTree({ ...state, menu_id: menuId } as MenuRecord);
   }
+  const changed = restoreMenuState(
+    menuId,
+    state,
+    generateBatchId("restore"),
+    grant
+  );
+  return { changed };
+}
 
-  // Get menu record
-  const menu = Process("models.menu.Find", id, {
-    select: ["id", "public", "share", "__yao_created_by", "__yao_team_id"],
-  }) as MenuRecord;
+/**
+ * Restore the whole menu tree to its state at a given time
+ * Only menus with recorded history are touched. With app:menu:admin every menu is
+ * restored; otherwise only the caller's own menus (the team's for a team login,
+ * the caller's personal menus otherwise), both as stored now and at that time.
+ * @param at Point in time, e.g. "2026-01-31T12:00:00Z"
+ * @returns Number of restored, unchanged and skipped (not the caller's) menus
+ * @test YAO_MENU_ALLOW_ANONYMOUS=1 yao run scripts.menu.RestoreTree "2026-01-31T12:00:00Z"
+ */
+function RestoreTree(at: string): {
+  restored: number;
+  unchanged: number;
+  skipped: number;
+} {
+  assertTime(at);
+  const grant = requireMenuScope("write");
+  const admin = hasMenuScope(grant, "app:menu:admin");
+  const authInfo = grant.authInfo;
 
-  if (!menu) {
-    throw new Exception("Menu not found", 404);
+  const wheres: any[] = [];
+  if (!admin && authInfo?.team_id) {
+    wheres.push({ column: "team_id", value: String(authInfo.team_id) });
+  } else if (!admin && authInfo?.user_id) {
+    wheres.push({ column: "team_id", op: "null" });
+    wheres.push({ column: "actor_id", value: String(authInfo.user_id) });
   }
+  const rows = Process("models.menu.revision.Get", {
+    select: ["menu_id"],
+    wheres,
+  }) as MenuRevision[];
+  const menuIds = [...new Set(rows.map((row) => row.menu_id))];
 
-  // Owner only: check if user owns the menu
-  if (constraints.owner_only && authInfo.user_id) {
-    if (menu.__yao_created_by === authInfo.user_id) {
-      return;
+  const batch = generateBatchId("restore");
+  const result = { restored: 0, unchanged: 0, skipped: 0 };
+
+  // Without admin, leave menus the caller does not own (now or at that time) alone
+  const owned = new Map<string, MenuRecord>();
+  if (!admin && menuIds.length > 0) {
+    (
+      Process("models.menu.Get", {
+        select: ["menu_id", "__yao_created_by", "__yao_team_id"],
+        wheres: [{ column: "menu_id", op: "in", value: menuIds }],
+      }) as MenuRecord[]
+    ).forEach((menu) => owned.set(menu.menu_id, menu));
+  }
+  const ownsState = (menuId: string, state: Record<string, any> | null) =>
+    admin ||
+    ((!owned.has(menuId) || ownsMenuState(owned.get(menuId)!, authInfo)) &&
+      (!state || ownsMenuState(state, authInfo)));
+
+  // Restore parents before children so the tree never references missing menus
+  const states = menuIds
+    .map((menuId) => ({ menuId, state: menuStateAt(menuId, at) }))
+    .filter(({ menuId, state }) => {
+      if (state === undefined || ownsState(menuId, state)) return true;
+      result.skipped++;
+      return false;
+    });
+  const parents = new Map<string, string | null>();
+  states.forEach(({ menuId, state }) =>
+    parents.set(menuId, state?.parent ?? null)
+  );
+  const depth = (menuId: string): number => {
+    let level = 0;
+    let parent = parents.get(menuId);
+    while (parent && parents.has(parent) && level < MAX_MENU_DEPTH) {
+      level++;
+      parent = parents.get(parent);
     }
+    return level;
+  };
+  states.sort((a, b) => depth(a.menuId) - depth(b.menuId));
+
+  // Check every state and the resulting tree before writing anything
+  states.forEach(({ menuId, state }) => {
+    if (state !== undefined) assertMenuRestore(menuId, state, grant);
+  });
+  const restoredMenus = states
+    .filter(({ state }) => state)
+    .map(({ menuId, state }) => ({ ...state, menu_id: menuId }) as MenuRecord);
+  if (restoredMenus.length > 0) {
+    assertMenuTree(restoredMenus);
   }
 
-  // Team only: check if menu belongs to user's team
-  if (constraints.team_only && authInfo.team_id) {
-    if (menu.__yao_team_id === authInfo.team_id) {
-      return;
+  states.forEach(({ menuId, state }) => {
+    if (state === undefined) return;
+    if (restoreMenuState(menuId, state, batch, grant)) {
+      result.restored++;
+    } else {
+      result.unchanged++;
     }
+  });
+
+  return result;
+}
+
+/**
+ * Menu state at a point in time from its history
+ * @returns The state, null if the menu did not exist, undefined if there is no history
+ */
+function menuStateAt(
+  menuId: string,
+  at: string
+): Record<string, any> | null | undefined {
+  // Stored timestamps are UTC "YYYY-MM-DD HH:MM:SS", compare in the same form
+  const time = sqlTime(new Date(at));
+  const latest = Process("models.menu.revision.Get", {
+    wheres: [
+      { column: "menu_id", value: menuId },
+      { column: "created_at", op: "le", value: time },
+    ],
+    orders: [{ column: "id", option: "desc" }],
+    limit: 1,
+  }) as MenuRevision[];
+  if (latest && latest.length > 0) {
+    return latest[0].after ?? null;
   }
 
-  throw new Exception("No permission to modify this menu", 403);
+  // No change before that time: the state is whatever the first later change started from
+  const earliest = Process("models.menu.revision.Get", {
+    wheres: [
+      { column: "menu_id", value: menuId },
+      { column: "created_at", op: "gt", value: time },
+    ],
+    orders: [{ column: "id", option: "asc" }],
+    limit: 1,
+  }) as MenuRevision[];
+  if (earliest && earliest.length > 0) {
+    return earliest[0].before ?? null;
+  }
+
+  return undefined;
 }
 
 /**
- * Import menu from flow output format
- * @param data Menu data in flow output format
- * @param options Import options
- * @returns Import result
- * @test yao run scripts.menu.Import '{"items":[{"name":"Test","path":"/test"}],"setting":[],"quick":[]}' '{"locale":"en"}'
+ * Check that the caller may bring a menu to a state: permission on the row being
+ * overwritten (live or deleted) and on the ownership recorded in the revision, then
+ * the field checks saveMenu runs. The tree is checked by the callers (assertMenuTree).
+ * @returns The live row and the soft-deleted rows holding the menu_id
  */
-function Import(
-  data: { items?: any[]; setting?: any[]; quick?: any[] },
-  options: { locale?: string; clear?: boolean } = {}
-): { success: number; failed: number } {
-  const locale = options.locale || "en";
-  let success = 0;
-  let failed = 0;
-
-  // Clear existing menus if requested
-  if (options.clear) {
-    Process("models.menu.DeleteWhere", {
-      wheres: [{ column: "id", op: ">", value: 0 }],
-    });
+function assertMenuRestore(
+  menuId: string,
+  state: Record<string, any> | null,
+  grant: MenuGrant
+): { current: MenuRecord | null; trashed: MenuRecord[] } {
+  const live = Process("models.menu.Get", {
+    wheres: [{ column: "menu_id", value: menuId }],
+    limit: 1,
+  }) as MenuRecord[];
+  const current = live && live.length > 0 ? live[0] : null;
+  const trashed = current ? [] : getTrashedMenus([menuId]);
+
+  if (current) {
+    checkMenuPermission(current.id!);
+  } else if (trashed.length > 0) {
+    checkMenuPermission(trashed[0].id!, trashed[0]);
   }
+  if (!state) {
+    return { current, trashed };
+  }
+  checkMenuPermission(0, state as MenuRecord);
 
-  // Import items
-  const importItems = (
-    items: any[],
-    type: "items" | "setting" | "quick",
-    parentMenuId?: string
-  ) => {
-    items?.forEach((item, index) => {
-      try {
-        const menuId = item.menu_id || generateMenuId(item.name, type, index);
-        const menuData: MenuRecord = {
-          menu_id: menuId,
-          name:
-            typeof item.name === "string" ? { [locale]: item.name } : item.name,
-          description: item.description
-            ? typeof item.description === "string"
-              ? { [locale]: item.description }
-              : item.description
-            : null,
-          icon: item.icon,
-          path: item.path,
-          type,
-          sort: item.sort ?? index,
-          status: "enabled",
-          public: item.public ?? false,
-          share: item.share ?? "private",
-          parent: parentMenuId ?? null,
-        };
+  // Revision states carry null for unset fields, the schema only allows it on some
+  const record: Record<string, any> = { menu_id: menuId };
+  Object.keys(state).forEach((field) => {
+    if (state[field] !== null) record[field] = state[field];
+  });
+  assertMenuSchema(record);
 
-        Save(menuData);
-        success++;
+  const previous = current || trashed[0] || null;
+  assertMenuVisibilityScope(grant, state, previous);
+  assertMenuBadge(grant, state, previous);
+  assertMenuTarget(state.target);
+  return { current, trashed };
+}
 
-        // Import children recursively
-        if (item.children && Array.isArray(item.children)) {
-          importItems(item.children, type, menuId);
-        }
-      } catch (e) {
-        console.error(`Failed to import menu item: ${item.name}`, e);
-        failed++;
-      }
+/**
+ * Bring a menu to the given state (null deletes it), recording a restore revision
+ * @returns Whether anything changed
+ */
+function restoreMenuState(
+  menuId: string,
+  state: Record<string, any> | null,
+  batch: string,
+  grant: MenuGrant
+): boolean {
+  const { current, trashed } = assertMenuRestore(menuId, state, grant);
+
+  if (!state) {
+    if (!current) return false;
+    Process("models.menu.Delete", current.id);
+    recordRevision("restore", current, null, batch);
+    invalidateMenuCache();
+    return true;
+  }
+
+  const record = { ...state, menu_id: menuId } as MenuRecord;
+  if (current) {
+    if (diffMenuRecord(current, record).action === "unchanged") return false;
+    Process("models.menu.Save", { ...record, id: current.id });
+  } else {
+    // A soft-deleted row still owns the menu_id, revive it instead of re-creating
+    if (trashed.length > 0) {
+      undeleteMenus([trashed[0].id!]);
+      Process("models.menu.Save", { ...record, id: trashed[0].id });
+    } else {
+      Process("models.menu.Create", record);
+    }
+  }
+
+  recordRevision("restore", current, record, batch);
+  invalidateMenuCache();
+  return true;
+}
+
+/**
+ * Record a menu revision; failures are logged and never block the write
+ * @param action Operation name
+ * @param before State before the change (null when created)
+ * @param after State after the change (null when deleted)
+ * @param batch Optional batch id grouping one Import/Reset/Restore call
+ */
+function recordRevision(
+  action: MenuRevision["action"],
+  before: Record<string, any> | null,
+  after: Record<string, any> | null,
+  batch: string | null = null
+): void {
+  const menuId = after?.menu_id || before?.menu_id;
+  if (!menuId) return;
+
+  try {
+    const authInfo = Authorized() as AuthorizedInfo | null;
+    Process("models.menu.revision.Create", {
+      menu_id: menuId,
+      action,
+      batch,
+      before: before ? revisionState(before) : null,
+      after: after ? revisionState(after) : null,
+      actor_id: authInfo?.user_id ? String(authInfo.user_id) : null,
+      team_id: authInfo?.team_id ? String(authInfo.team_id) : null,
     });
-  };
+  } catch (e) {
+    console.error(`Failed to record menu revision: ${menuId}`, e);
+  }
+}
 
-  importItems(data.items || [], "items");
-  importItems(data.setting || [], "setting");
-  importItems(data.quick || [], "quick");
+/**
+ * Menu fields kept in a revision (content + ownership, no keys or timestamps)
+ */
+function revisionState(menu: Record<string, any>): Record<string, any> {
+  const state: Record<string, any> = { menu_id: menu.menu_id };
+  MENU_FIELDS.forEach((field) => {
+    state[field] = normalizeMenuField(field, menu[field]);
+  });
+  if (menu.__yao_created_by !== undefined) {
+    state.__yao_created_by = menu.__yao_created_by;
+  }
+  if (menu.__yao_team_id !== undefined) {
+    state.__yao_team_id = menu.__yao_team_id;
+  }
+  return state;
+}
 
-  return { success, failed };
+/**
+ * Whether the caller could see a menu state in Get (public, or owned per ownsMenuState)
+ */
+function canSeeMenuState(
+  state: Record<string, any> | null | undefined,
+  authInfo: AuthorizedInfo | null
+): boolean {
+  if (!state) return false;
+  return (
+    normalizeMenuField("public", state.public) === true ||
+    ownsMenuState(state, authInfo)
+  );
 }
 
 /**
- * Export menu to flow output format
- * @param locale The locale for export
- * @returns Menu data in flow output format
- * @test yao run scripts.menu.Export en
+ * Whether a menu state belongs to the caller's login context, as in buildAuthFilters:
+ * the team's menus for a team login, personal menus (no team) for a personal login
+ */
+function ownsMenuState(
+  state: Record<string, any>,
+  authInfo: AuthorizedInfo | null
+): boolean {
+  if (!authInfo) return false;
+  if (authInfo.team_id) {
+    return String(state.__yao_team_id ?? "") === String(authInfo.team_id);
+  }
+  return (
+    !!authInfo.user_id &&
+    !state.__yao_team_id &&
+    String(state.__yao_created_by ?? "") === String(authInfo.user_id)
+  );
+}
+
+/**
+ * Throw 400 unless the value is a parseable time
  */
-function Export(locale: string = "en"): MenuOutput {
-  return Get(locale);
+function assertTime(at: string): void {
+  if (!at || isNaN(Date.parse(at))) {
+    throw new Exception(`Invalid time: ${at}`, 400);
+  }
 }
 
 /**
@@ -504,53 +4131,154 @@ function Setup(): {
 
 /**
  * Reset menus - Clear system menus and optionally reimport from seed
- * User-created menus are preserved (identified by menu_id pattern)
- * System menu_ids start with: items_, setting_, quick_
+ * System menus are the rows listed in seeds/menus.csv, rows flagged `system` and
+ * LEGACY_SYSTEM_MENU_IDS; user-created menus are preserved. Requires app:menu:admin.
  * @param reimport boolean whether to reimport seed data after clearing
- * @test yao run scripts.menu.Reset
- * @test yao run scripts.menu.Reset true
+ * @param preview boolean report what would change without writing
+ * @returns What was (or would be) deleted, recreated and overwritten
+ * @test YAO_MENU_ALLOW_ANONYMOUS=1 yao run scripts.menu.Reset
+ * @test YAO_MENU_ALLOW_ANONYMOUS=1 yao run scripts.menu.Reset true
+ * @test YAO_MENU_ALLOW_ANONYMOUS=1 yao run scripts.menu.Reset true true
  */
-function Reset(reimport: boolean = false): void {
-  console.log("Resetting menus...");
+function Reset(
+  reimport: boolean = false,
+  preview: boolean = false
+): MenuResetReport {
+  requireMenuScope("admin");
+  console.log(preview ? "Previewing menu reset..." : "Resetting menus...");
 
-  // Get all system menu_ids from seed file to identify what to delete
+  // System menus: seed rows + rows flagged as system + legacy built-ins
+  const seeds = readSeedMenus();
+  const flagged = Process("models.menu.Get", {
+    select: ["menu_id"],
+    wheres: [{ column: "system", value: true }],
+  }) as MenuRecord[];
   const systemMenuIds = [
-    "items_chat",
-    "items_assistants",
-    "items_mission_control",
-    "items_api_keys",
-    "items_kb",
-    "setting_profile",
-    // Legacy menu_ids (for cleanup)
-    "setting_main",
-    "setting_team",
-    "setting_api_keys",
-    "setting_usage",
+    ...new Set([
+      ...seeds.map((menu) => menu.menu_id),
+      ...flagged.map((menu) => menu.menu_id),
+      ...LEGACY_SYSTEM_MENU_IDS,
+    ]),
   ];
 
+  const before =
+    systemMenuIds.length > 0
+      ? (Process("models.menu.Get", {
+          wheres: [{ column: "menu_id", op: "in", value: systemMenuIds }],
+        }) as MenuRecord[])
+      : [];
+
+  // System items whose content differs from the seed lose those edits
+  const seedById = new Map<string, MenuRecord>();
+  seeds.forEach((seed) => seedById.set(seed.menu_id, seed));
+  const report: MenuResetReport = {
+    preview,
+    delete: before.map((menu) => menu.menu_id),
+    recreate: reimport ? seeds.map((menu) => menu.menu_id) : [],
+    overwritten: [],
+  };
+  before.forEach((menu) => {
+    const seed = seedById.get(menu.menu_id);
+    if (!seed) return;
+    const fields = Object.keys(diffMenuRecord(menu, seed).fields || {}).filter(
+      (field) => field !== "system"
+    );
+    if (fields.length > 0) {
+      report.overwritten.push({ menu_id: menu.menu_id, fields });
+    }
+  });
+
+  if (preview) {
+    return report;
+  }
+
   // Soft delete only system menus by menu_id, preserve user-created menus
   // Use DeleteWhere (soft delete) instead of DestroyWhere (hard delete)
   // DeleteWhere requires QueryParam format: { wheres: [{ column: "...", value: "..." }] }
+  const batch = generateBatchId("reset");
   let deleted = 0;
-  for (const menuId of systemMenuIds) {
+  for (const menu of before) {
     const count = Process("models.menu.DeleteWhere", {
-      wheres: [{ column: "menu_id", value: menuId }],
+      wheres: [{ column: "menu_id", value: menu.menu_id }],
     });
     deleted += count || 0;
+    recordRevision("reset", menu, null, batch);
   }
   console.log(`Soft deleted ${deleted} system menus (user menus preserved)`);
 
   // Optionally reimport seed data
+  // Soft-deleted rows still own their menu_id, so seed rows are revived in place
   if (reimport) {
     console.log("Reimporting menus from seed data...");
-    Setup();
+    seeds.forEach((seed) => {
+      const trashed = getTrashedMenus([seed.menu_id]);
+      if (trashed.length > 0) {
+        undeleteMenus([trashed[0].id!]);
+        Process("models.menu.Save", { ...seed, id: trashed[0].id });
+      } else {
+        Process("models.menu.Create", seed);
+      }
+      recordRevision("reset", null, seed, batch);
+    });
   }
 
+  invalidateMenuCache();
   console.log("Menus reset completed");
+  return report;
+}
+
+// ============ Seed Helpers ============
+
+/**
+ * Read system menus from seeds/menus.csv
+ * JSON columns are decoded and every row is flagged as a system menu
+ */
+function readSeedMenus(): MenuRecord[] {
+  const fs = new FS("app");
+  if (!fs.Exists(MENU_SEED_FILE)) {
+    console.error(`Menu seed file not found: ${MENU_SEED_FILE}`);
+    return [];
+  }
+
+  const rows = parseCsv(fs.ReadFile(MENU_SEED_FILE));
+  const header = rows.shift() || [];
+  const jsonColumns = [
+    "name",
+    "description",
+    "icon",
+    "roles",
+    "features",
+    "extra",
+  ];
+
+  return rows.map((row) => {
+    const record: Record<string, any> = {};
+    header.forEach((column, index) => {
+      const value = row[index] ?? "";
+      if (value === "") {
+        record[column] = null;
+      } else if (jsonColumns.includes(column)) {
+        record[column] = JSON.parse(value);
+      } else {
+        record[column] = value;
+      }
+    });
+    record.sort = Number(record.sort) || 0;
+    record.public = normalizeMenuField("public", record.public);
+    record.system = true;
+    return record as MenuRecord;
+  });
 }
 
 // ============ Helper Functions ============
 
+/**
+ * Generate a batch id grouping revisions of one operation
+ */
+function generateBatchId(action: string): string {
+  return `${action}_${Date.now()}_${Math.floor(Math.random() * 10000)}`;
+}
+
 /**
  * Generate a unique menu_id from name
  */
@@ -0,0 +1,565 @@
+/**
+ * Menu Schema - single source of the menu API contract
+ *
+ * MENU_SCHEMA is the JSON Schema of the menu records and menu output.
+ * scripts/menu.ts validates writes against it, and Generate() renders the
+ * published files from it:
+ *   types/menu.schema.json  JSON Schema
+ *   types/menu.d.ts         TypeScript declarations (also used by scripts/menu.ts)
+ */
+
+import { Exception, FS } from "@yao/runtime";
+
+/** JSON Schema subset used by the menu contract */
+export interface MenuSchemaNode {
+  $ref?: string;
+  type?: string | string[];
+  description?: string;
+  enum?: (string | number | boolean)[];
+  oneOf?: MenuSchemaNode[];
+  properties?: Record<string, MenuSchemaNode>;
+  required?: string[];
+  additionalProperties?: boolean | MenuSchemaNode;
+  minProperties?: number;
+  items?: MenuSchemaNode;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+}
+
+/** A field-level validation error, field is a dotted path such as "icon.size" */
+export interface MenuFieldError {
+  field: string;
+  message: string;
+}
+
+const SCHEMA_FILE = "types/menu.schema.json";
+const DECLARATION_FILE = "types/menu.d.ts";
+
+/** Definitions rendered into types/menu.d.ts, in order */
+const DECLARED = [
+  "MenuI18n",
+  "MenuIcon",
+  "MenuConditions",
+  "MenuTarget",
+  "MenuRecord",
+  "MenuLink",
+  "MenuItem",
+  "MenuOutput",
+];
+
+export const MENU_SCHEMA: {
+  $schema: string;
+  title: string;
+  description: string;
+  $defs: Record<string, MenuSchemaNode>;
+} = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  title: "Menu",
+  description:
+    "Menu records (models/menu.mod.yao) and menu output (scripts.menu.Get)",
+  $defs: {
+    MenuI18n: {
+      description: 'Localized text: { "en": "Dashboard", "zh-cn": "数据看板" }',
+      type: "object",
+      minProperties: 1,
+      additionalProperties: { type: "string" },
+    },
+    MenuIcon: {
+      description: "Icon name, or icon name with size",
+      oneOf: [
+        { type: "string", minLength: 1 },
+        {
+          type: "object",
+          properties: {
+            name: { type: "string", minLength: 1 },
+            size: { type: "integer", minimum: 1 },
+          },
+          required: ["name"],
+          additionalProperties: false,
+        },
+      ],
+    },
+    MenuConditions: {
+      description: "Menu display conditions, evaluated per request",
+      type: "object",
+      properties: {
+        env: {
+          description:
+            "Env var (YAO_ENV or YAO_MENU_*) must equal (one of) the value(s)",
+          type: "object",
+          additionalProperties: {
+            oneOf: [
+              { type: "string" },
+              { type: "array", items: { type: "string" } },
+            ],
+          },
+        },
+        flags: {
+          description: "App or team feature flags that must all be on",
+          type: "array",
+          items: { type: "string" },
+        },
+        from: {
+          description: "Show from this time (inclusive)",
+          type: "string",
+        },
+        until: {
+          description: "Show until this time (exclusive)",
+          type: "string",
+        },
+        user_types: {
+          description:
+            "Caller's user type (__yao.user.type) must be one of these",
+          type: "array",
+          items: { type: "string" },
+        },
+      },
+      additionalProperties: false,
+    },
+    MenuTarget: {
+      description: "Typed link target stored on a menu record",
+      type: "object",
+      properties: {
+        kind: { type: "string", enum: ["route", "url", "assistant", "sui"] },
+        route: {
+          description: 'route: dashboard route, e.g. "/mission-control"',
+          type: "string",
+        },
+        url: { description: "url: absolute http(s) URL", type: "string" },
+        target: {
+          description: "url: where to open it (default _blank)",
+          type: "string",
+          enum: ["_self", "_blank"],
+        },
+        assistant_id: {
+          description: 'assistant: folder under assistants/, e.g. "yao"',
+          type: "string",
+        },
+        page: {
+          description: 'sui: page route of suis/web.sui.yao, e.g. "/index"',
+          type: "string",
+        },
+      },
+      required: ["kind"],
+      additionalProperties: false,
+    },
+    MenuRecord: {
+      description: "Menu item structure (database)",
+      type: "object",
+      properties: {
+        id: { description: "Auto-increment primary key", type: "integer" },
+        menu_id: {
+          description: "Unique string identifier",
+          type: "string",
+          minLength: 1,
+          maxLength: 64,
+        },
+        parent: {
+          description: "Parent menu_id, null for root items",
+          type: ["string", "null"],
+          maxLength: 64,
+        },
+        name: { $ref: "#/$defs/MenuI18n" },
+        description: {
+          oneOf: [{ $ref: "#/$defs/MenuI18n" }, { type: "null" }],
+        },
+        icon: { oneOf: [{ $ref: "#/$defs/MenuIcon" }, { type: "null" }] },
+        path: {
+          description: "Navigation path or URL, used when target is not set",
+          type: ["string", "null"],
+          maxLength: 512,
+        },
+        target: { oneOf: [{ $ref: "#/$defs/MenuTarget" }, { type: "null" }] },
+        type: { type: "string", enum: ["items", "setting", "quick"] },
+        sort: { type: "integer" },
+        status: { type: "string", enum: ["enabled", "disabled"] },
+        public: { type: "boolean" },
+        share: { type: "string", enum: ["private", "team"] },
+        system: { description: "Managed by seeds/menus.csv", type: "boolean" },
+        roles: {
+          description: "Any of these roles may see the menu",
+          type: ["array", "null"],
+          items: { type: "string" },
+        },
+        features: {
+          description: "All of these features are required",
+          type: ["array", "null"],
+          items: { type: "string" },
+        },
+        conditions: {
+          description: "Display conditions, all must hold",
+          oneOf: [{ $ref: "#/$defs/MenuConditions" }, { type: "null" }],
+        },
+        extra: {
+          description:
+            "Additional configuration, e.g. badge source and tooltip",
+          type: ["object", "null"],
+          additionalProperties: true,
+        },
+        __yao_created_by: {
+          description: "Permission field: creator user_id",
+          type: ["string", "integer"],
+        },
+        __yao_team_id: {
+          description: "Permission field: owning team_id",
+          type: ["string", "integer"],
+        },
+      },
+      required: ["menu_id", "name", "type"],
+      additionalProperties: false,
+    },
+    MenuLink: {
+      description: "Resolved link descriptor in menu output",
+      type: "object",
+      properties: {
+        kind: { type: "string", enum: ["route", "url", "assistant", "sui"] },
+        href: { description: "route, url and sui links", type: "string" },
+        target: { type: "string", enum: ["_self", "_blank"] },
+        assistant_id: {
+          description: "assistant links open a chat with this assistant",
+          type: "string",
+        },
+      },
+      required: ["kind"],
+      additionalProperties: false,
+    },
+    MenuItem: {
+      description: "Menu item structure (output with children)",
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        icon: { $ref: "#/$defs/MenuIcon" },
+        path: { type: "string" },
+        link: { $ref: "#/$defs/MenuLink" },
+        description: { type: "string" },
+        tooltip: { type: "string" },
+        sort: { type: "integer" },
+        badge: {
+          oneOf: [
+            { type: "string" },
+            { type: "number" },
+            { type: "object", additionalProperties: true },
+          ],
+        },
+        children: { type: "array", items: { $ref: "#/$defs/MenuItem" } },
+      },
+      required: ["name"],
+      additionalProperties: false,
+    },
+    MenuOutput: {
+      description: "Menu output structure (matches flow output)",
+      type: "object",
+      properties: {
+        items: { type: "array", items: { $ref: "#/$defs/MenuItem" } },
+        setting: { type: "array", items: { $ref: "#/$defs/MenuItem" } },
+        quick: { type: "array", items: { $ref: "#/$defs/MenuItem" } },
+        version: {
+          description: "Content hash, pass to Changes() to detect updates",
+          type: "string",
+        },
+      },
+      required: ["items", "setting", "quick"],
+      additionalProperties: false,
+    },
+  },
+};
+
+/**
+ * Get the menu JSON Schema
+ * @returns JSON Schema (draft 2020-12)
+ * @test yao run scripts.menu.schema.Schema
+ */
+function Schema(): typeof MENU_SCHEMA {
+  return MENU_SCHEMA;
+}
+
+/**
+ * Write types/menu.schema.json and types/menu.d.ts from MENU_SCHEMA
+ * Run after changing the schema and commit both files.
+ * @returns Written file paths
+ * @test yao run scripts.menu.schema.Generate
+ */
+function Generate(): { files: string[] } {
+  const fs = new FS("app");
+  fs.WriteFile(SCHEMA_FILE, JSON.stringify(MENU_SCHEMA, null, 2) + "\n");
+  fs.WriteFile(DECLARATION_FILE, renderDeclarations());
+  return { files: [SCHEMA_FILE, DECLARATION_FILE] };
+}
+
+// ============ Validation ============
+
+/**
+ * Validate a value against a schema definition
+ * @param value Value to check
+ * @param name Definition name in MENU_SCHEMA.$defs, e.g. "MenuRecord"
+ * @param partial Skip required top-level fields (updates)
+ * @returns Field-level errors, empty when valid
+ */
+export function validateMenuSchema(
+  value: any,
+  name: string,
+  partial: boolean = false
+): MenuFieldError[] {
+  const schema = MENU_SCHEMA.$defs[name];
+  if (!schema) {
+    throw new Exception(`Unknown menu schema: ${name}`, 500);
+  }
+  const errors: MenuFieldError[] = [];
+  validateNode(value, schema, "", errors, partial);
+  return errors;
+}
+
+/**
+ * Recursively check a value, appending errors with their field path
+ */
+function validateNode(
+  value: any,
+  schema: MenuSchemaNode,
+  field: string,
+  errors: MenuFieldError[],
+  partial: boolean = false
+): void {
+  const fail = (message: string) =>
+    errors.push({ field: field || "$", message });
+
+  if (schema.$ref) {
+    validateNode(value, resolveRef(schema.$ref), field, errors, partial);
+    return;
+  }
+
+  if (schema.oneOf) {
+    // Accept the first matching branch; report the branch errors if only one branch has the right type
+    const candidates = schema.oneOf.map((branch) => {
+      const branchErrors: MenuFieldError[] = [];
+      validateNode(value, branch, field, branchErrors);
+      return branchErrors;
+    });
+    if (candidates.some((branchErrors) => branchErrors.length === 0)) return;
+    const typed = candidates.filter(
+      (branchErrors) =>
+        !branchErrors.some(
+          (error) =>
+            error.field === (field || "$") &&
+            error.message.startsWith("must be ")
+        )
+    );
+    if (typed.length === 1) {
+      errors.push(...typed[0]);
+    } else {
+      fail(`must be ${schema.oneOf.map(describeNode).join(" or ")}`);
+    }
+    return;
+  }
+
+  const types = schema.type
+    ? Array.isArray(schema.type)
+      ? schema.type
+      : [schema.type]
+    : [];
+  if (types.length > 0 && !types.some((type) => matchesType(value, type))) {
+    fail(`must be ${types.join(" or ")}`);
+    return;
+  }
+  if (value === null) return;
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    fail(`must be one of ${schema.enum.join(", ")}`);
+    return;
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail(
+        schema.minLength === 1
+          ? "must not be empty"
+          : `must be at least ${schema.minLength} characters`
+      );
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      fail(`must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      fail(`must match ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === "number" && schema.minimum !== undefined) {
+    if (value < schema.minimum) fail(`must be >= ${schema.minimum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.items) {
+      value.forEach((item, index) =>
+        validateNode(item, schema.items!, `${field}[${index}]`, errors)
+      );
+    }
+    return;
+  }
+
+  if (typeof value === "object") {
+    const join = (key: string) => (field ? `${field}.${key}` : key);
+    if (!partial) {
+      (schema.required || []).forEach((key) => {
+        if (value[key] === undefined || value[key] === null) {
+          errors.push({ field: join(key), message: "is required" });
+        }
+      });
+    }
+    if (
+      schema.minProperties !== undefined &&
+      Object.keys(value).length < schema.minProperties
+    ) {
+      fail(
+        `must have at least ${schema.minProperties} entr${schema.minProperties === 1 ? "y" : "ies"}`
+      );
+    }
+    Object.keys(value).forEach((key) => {
+      if (value[key] === undefined) return;
+      const property = schema.properties?.[key];
+      if (property) {
+        validateNode(value[key], property, join(key), errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push({ field: join(key), message: "is not a known field" });
+      } else if (typeof schema.additionalProperties === "object") {
+        validateNode(
+          value[key],
+          schema.additionalProperties,
+          join(key),
+          errors
+        );
+      }
+    });
+  }
+}
+
+/**
+ * Whether a value has the given JSON Schema type
+ */
+function matchesType(value: any, type: string): boolean {
+  switch (type) {
+    case "null":
+      return value === null;
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && isFinite(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return (
+        value !== null && typeof value === "object" && !Array.isArray(value)
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Resolve a local "#/$defs/Name" reference
+ */
+function resolveRef(ref: string): MenuSchemaNode {
+  const name = ref.replace("#/$defs/", "");
+  const schema = MENU_SCHEMA.$defs[name];
+  if (!schema) {
+    throw new Exception(`Unknown menu schema reference: ${ref}`, 500);
+  }
+  return schema;
+}
+
+/**
+ * Short description of a schema node for error messages
+ */
+function describeNode(schema: MenuSchemaNode): string {
+  if (schema.$ref) return schema.$ref.replace("#/$defs/", "");
+  if (Array.isArray(schema.type)) return schema.type.join(" or ");
+  return schema.type || "value";
+}
+
+// ============ Declarations ============
+
+/**
+ * Render the TypeScript declarations for the declared definitions
+ */
+export function renderDeclarations(): string {
+  const lines = [
+    "/**",
+    " * Menu API contract",
+    " * Generated by `yao run scripts.menu.schema.Generate` from scripts/menu/schema.ts, do not edit.",
+    ` * JSON Schema: ${SCHEMA_FILE}`,
+    " */",
+    "",
+  ];
+
+  DECLARED.forEach((name) => {
+    const schema = MENU_SCHEMA.$defs[name];
+    if (schema.description) lines.push(`/** ${schema.description} */`);
+    if (schema.properties) {
+      lines.push(`export interface ${name} {`);
+      const required = schema.required || [];
+      Object.entries(schema.properties).forEach(([key, property]) => {
+        if (property.description)
+          lines.push(`  /** ${property.description} */`);
+        const optional = required.includes(key) ? "" : "?";
+        lines.push(`  ${key}${optional}: ${renderType(property)};`);
+      });
+      lines.push("}");
+    } else {
+      lines.push(`export type ${name} = ${renderType(schema)};`);
+    }
+    lines.push("");
+  });
+
+  return lines.join("\n");
+}
+
+/**
+ * TypeScript type expression for a schema node
+ */
+function renderType(schema: MenuSchemaNode): string {
+  if (schema.$ref) return schema.$ref.replace("#/$defs/", "");
+  if (schema.oneOf) return schema.oneOf.map(renderType).join(" | ");
+  if (schema.enum)
+    return schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+
+  const types = Array.isArray(schema.type)
+    ? schema.type
+    : [schema.type || "any"];
+  return types
+    .map((type) => {
+      switch (type) {
+        case "string":
+        case "boolean":
+        case "null":
+          return type;
+        case "integer":
+        case "number":
+          return "number";
+        case "array": {
+          const item = schema.items ? renderType(schema.items) : "any";
+          return item.includes(" ") ? `(${item})[]` : `${item}[]`;
+        }
+        case "object":
+          if (schema.properties) {
+            const required = schema.required || [];
+            const fields = Object.entries(schema.properties).map(
+              ([key, property]) =>
+                `${key}${required.includes(key) ? "" : "?"}: ${renderType(property)}`
+            );
+            return `{ ${fields.join("; ")} }`;
+          }
+          if (typeof schema.additionalProperties === "object") {
+            return `Record<string, ${renderType(schema.additionalProperties)}>`;
+          }
+          return "Record<string, any>";
+        default:
+          return "any";
+      }
+    })
+    .join(" | ");
+}
@@ -1,86 +1,163 @@
-import { log, Process } from "@yao/runtime";
+import { Exception, FS, log, Process, Query } from "@yao/runtime";
+import { passwordFingerprint } from "@scripts/auth";
+import { parseCsv, readEnv } from "@scripts/utils";
 
 /**
- * Init - Initialize the application with seed data
- * Run after first installation or to add missing seed data
+ * Init - Run pending setup steps (migrations and seed data) in order
+ * Run after first installation, and after upgrades to apply new steps
  * yao run scripts.setup.Init
- * yao run scripts.setup.Init true  (force reinit)
- * @param force boolean whether to force reinit even if already initialized
+ * yao run scripts.setup.Init true  (force: rerun every step)
+ * yao run scripts.setup.Init false '{"email":"admin@example.com","password":"..."}'
+ * yao run scripts.setup.Init false '{}' '{"plan":true}'  (dry run: report changes, write nothing)
+ * @param force boolean whether to rerun steps that were already applied
+ * @param credentials root email/password, see resolveRootCredentials
+ * @param options plan: report the pending steps and their row changes only
  */
-function Init(force: boolean = false) {
-  // Check if already initialized
-  if (!force && IsInstalled()) {
-    log.Info("Application is already initialized. Use 'yao run scripts.setup.Init true' to force reinit.");
-    return { status: "skipped", message: "Already initialized" };
+function Init(force: boolean = false, credentials: RootCredentialsInput = {}, options: SetupOptions = {}) {
+  if (options.plan) {
+    return planInit(force, credentials);
   }
 
-  log.Info("=== Starting Application Init ===");
-
-  // Run migrate first to ensure tables exist
-  log.Info("Running database migration...");
-  MigrateModels();
+  ensureLedger();
+  const applied = loadAppliedSteps();
+  const steps = force ? SETUP_STEPS : SETUP_STEPS.filter((step) => !applied[step.id]);
+  if (steps.length === 0) {
+    log.Info("Application is up to date. Use 'yao run scripts.setup.Init true' to force reinit.");
+    return { status: "skipped", message: "No pending steps" };
+  }
 
-  // Import seed data (skip duplicates)
-  SetupRoles();
-  SetupTypes();
-  SetupMenus();
-  SetupInvitationCodes();
+  log.Info(`=== Starting Application Init (${steps.length} step(s)) ===`);
 
-  // Create root user if not exists
-  SetupRootUser();
+  const context: SetupStepContext = { credentials, root: null };
+  for (const step of steps) {
+    const start = Date.now();
+    log.Info(`Step ${step.id}: ${step.description}`);
+    try {
+      step.run(context);
+    } catch (e) {
+      // Later steps may depend on this one, stop here; rerunning Init resumes from this step
+      log.Error(`Step ${step.id} failed: ${e}`);
+      return { status: "failed", step: step.id, message: `${e}` };
+    }
+    recordStep(step, Date.now() - start, applied[step.id]);
+  }
 
   // Build SUI templates
   BuildSUI();
 
   log.Info("=== Application Init Completed ===");
-  console.log("");
-  console.log("========================================");
-  console.log("  Root User Credentials");
-  console.log("----------------------------------------");
-  console.log(`  Email:    ${ROOT_USER.email}`);
-  console.log(`  Password: ${ROOT_USER_PASSWORD}`);
-  console.log("========================================");
+  if (context.root) {
+    console.log("");
+    console.log("========================================");
+    console.log("  Root User");
+    console.log("----------------------------------------");
+    console.log(`  Email:    ${context.root.email}`);
+    console.log(`  Password: ${describePasswordSource(context.root)}`);
+    console.log("========================================");
+  }
   console.log("");
   console.log("Run 'yao start' to start the application");
   console.log("");
 
-  return { status: "success", message: "Initialization completed" };
+  return { status: "success", message: "Initialization completed", steps: steps.map((step) => step.id) };
 }
 
 /**
- * Check if the application is already installed
- * @returns boolean
+ * Dry run of Init: pending steps (all steps with force) and the rows each would touch
  */
-function IsInstalled(): boolean {
+function planInit(force: boolean, credentials: RootCredentialsInput) {
+  let applied: Record<string, AppliedStep> = {};
   try {
-    // Check if root user exists
-    const users = Process("models.__yao.user.Get", {
-      wheres: [{ column: "email", value: ROOT_USER.email }],
-      limit: 1,
-    });
-    if (users && users.length > 0) {
-      return true;
-    }
+    applied = loadAppliedSteps();
+  } catch (e) {
+    // Ledger table does not exist yet, every step is pending
+  }
 
-    // Check if roles exist
-    const roles = Process("models.__yao.role.Get", { limit: 1 });
-    if (roles && roles.length > 0) {
-      return true;
-    }
+  const context: SetupStepContext = { credentials, root: null };
+  const steps = (force ? SETUP_STEPS : SETUP_STEPS.filter((step) => !applied[step.id])).map((step) => {
+    log.Info(`[plan] Step ${step.id}: ${step.description}`);
+    const models = step.plan(context);
+    logPlan(models);
+    return { step: step.id, description: step.description, models };
+  });
 
-    return false;
+  if (steps.length === 0) {
+    log.Info("[plan] No pending steps");
+  }
+  return { status: "plan", steps };
+}
+
+/**
+ * Check if the application is installed: every setup step has been applied
+ * @returns boolean
+ */
+function IsInstalled(): boolean {
+  try {
+    const applied = loadAppliedSteps();
+    return SETUP_STEPS.every((step) => applied[step.id]);
   } catch (e) {
-    // Table might not exist yet
+    // Ledger table does not exist yet
     return false;
   }
 }
 
+/**
+ * Status - List applied and pending setup steps
+ * yao run scripts.setup.Status
+ */
+function Status() {
+  ensureLedger();
+  const applied = loadAppliedSteps();
+  const status = {
+    installed: SETUP_STEPS.every((step) => applied[step.id]),
+    applied: SETUP_STEPS.filter((step) => applied[step.id]).map((step) => ({
+      step: step.id,
+      description: step.description,
+      applied_at: applied[step.id].applied_at,
+      duration_ms: applied[step.id].duration_ms,
+    })),
+    pending: SETUP_STEPS.filter((step) => !applied[step.id]).map((step) => ({
+      step: step.id,
+      description: step.description,
+    })),
+  };
+
+  for (const step of status.applied) {
+    log.Info(`[applied] ${step.step} ${step.description} (${step.applied_at})`);
+  }
+  for (const step of status.pending) {
+    log.Info(`[pending] ${step.step} ${step.description}`);
+  }
+  return status;
+}
+
 /**
  * Reset - Clear all data and reimport from seeds
  * WARNING: This will delete all existing data!
- * yao run scripts.setup.Reset
+ * yao run has no prompt, so every run needs the confirm token printed by the plan:
+ * yao run scripts.setup.Reset '{}' '{"plan":true}'
+ * yao run scripts.setup.Reset '{}' '{"confirm":"reset-..."}'
+ * @param credentials root email/password, see resolveRootCredentials
+ * @param options plan: report the rows that would be destroyed and reimported; confirm: token from the plan
  */
-function Reset() {
+function Reset(credentials: RootCredentialsInput = {}, options: SetupOptions = {}) {
+  const plan = planReset(credentials);
+  const token = resetConfirmToken(plan);
+  if (options.plan) {
+    logPlan(plan);
+    log.Info(`[plan] To apply, rerun with '{"confirm":"${token}"}' as the second argument`);
+    return { status: "plan", models: plan, confirm: token };
+  }
+  if (options.confirm !== token) {
+    throw new Exception(
+      "Reset deletes all existing data. Run it with '{\"plan\":true}' first, then pass the printed confirm token",
+      400
+    );
+  }
+
+  // Fail on missing or invalid credentials before anything is backed up or deleted
+  const root = resolveRootCredentials(credentials);
+
   log.Info("=== Starting Application Reset ===");
   log.Warn("WARNING: This will delete all existing data!");
 
@@ -88,131 +165,357 @@ function Reset() {
   log.Info("Running database migration...");
   MigrateModels();
 
+  // One snapshot of every table Reset touches
+  backupModels("reset", [
+    SEEDS.roles.model,
+    SEEDS.types.model,
+    SEEDS.menus.model,
+    SEEDS.invitations.model,
+    ...ROOT_USER_MODELS,
+  ]);
+
   // Clear and reimport seed data
-  ResetRoles();
-  ResetTypes();
-  ResetMenus();
-  ResetInvitationCodes();
+  resetRoles();
+  resetTypes();
+  resetMenus();
+  resetInvitationCodes();
 
   // Recreate root user
-  ResetRootUser();
+  log.Info("Resetting root user...");
+  replaceRootUser(root);
 
   log.Info("=== Application Reset Completed ===");
 }
 
 /**
- * Migrate all required models
+ * Migrate all required models (the migrate steps of SETUP_STEPS), throws on the first failure
+ * yao run scripts.setup.MigrateModels
  */
 function MigrateModels() {
-  const models = ["menu"];
-  for (const model of models) {
-    try {
-      Process(`models.${model}.Migrate`, false);
-      log.Info(`Migrated model: ${model}`);
-    } catch (e) {
-      log.Warn(`Failed to migrate model ${model}: ${e}`);
-    }
+  ensureLedger();
+  for (const step of SETUP_STEPS) {
+    if (step.model) migrateModel(step.model);
   }
 }
 
 // ============================================
-// Seed Data Import Functions
+// Setup Steps
 // ============================================
 
+interface SetupStepContext {
+  credentials: RootCredentialsInput;
+  root: RootCredentials | null; // Set by the root user step when it creates the user
+}
+
+interface SetupStep {
+  id: string; // Numbered, applied in this order and recorded in the ledger
+  description: string;
+  run: (context: SetupStepContext) => void;
+  plan: (context: SetupStepContext) => ModelPlan[]; // Dry run, must not write
+  model?: string; // Set on migrate steps (see migrateStep)
+}
+
+interface AppliedStep {
+  id: number;
+  step: string;
+  applied_at: string;
+  duration_ms: number;
+}
+
 /**
- * Setup roles - Import roles from seed data (skip duplicates)
- * yao run scripts.setup.SetupRoles
+ * Setup step registry. Append new steps with the next number, never renumber or remove:
+ * installs that already applied a step skip it, so existing installs only run what is new.
+ * Every step must be safe to rerun (migrate without drop, seeds with duplicate "ignore").
  */
-function SetupRoles() {
-  log.Info("Setting up roles...");
+const SETUP_STEPS: SetupStep[] = [
+  migrateStep("0001_migrate_menu", "Migrate menu", "menu"),
+  migrateStep("0002_migrate_menu_revision", "Migrate menu revisions", "menu.revision"),
+  migrateStep("0003_migrate_menu_template", "Migrate menu templates", "menu.template"),
+  migrateStep("0004_migrate_menu_click", "Migrate menu clicks", "menu.click"),
+  {
+    id: "0005_seed_roles",
+    description: "Import roles",
+    run: () => assertSeeded("Roles", SetupRoles()),
+    plan: () => [planSeed(SEEDS.roles, "ignore")],
+  },
+  {
+    id: "0006_seed_types",
+    description: "Import user types",
+    run: () => assertSeeded("Types", SetupTypes()),
+    plan: () => [planSeed(SEEDS.types, "ignore")],
+  },
+  {
+    id: "0007_seed_menus",
+    description: "Import menus",
+    run: () => assertSeeded("Menus", SetupMenus()),
+    plan: () => [planSeed(SEEDS.menus, "ignore")],
+  },
+  {
+    id: "0008_seed_invitation_codes",
+    description: "Import invitation codes",
+    run: () => assertSeeded("Invitation codes", SetupInvitationCodes()),
+    plan: () => [planSeed(SEEDS.invitations, "ignore")],
+  },
+  {
+    id: "0009_root_user",
+    description: "Create root user and team",
+    run: (context) => {
+      context.root = SetupRootUser(context.credentials);
+    },
+    plan: (context) => planRootUser(context.credentials.email || resolveRootEmail(), false),
+  },
+];
 
-  const options = {
-    chunk_size: 100,
-    duplicate: "ignore",
-    mode: "each",
-  };
+/**
+ * Step migrating one application model
+ */
+function migrateStep(id: string, description: string, model: string): SetupStep {
+  return { id, description, model, run: () => migrateModel(model), plan: () => [] };
+}
+
+/**
+ * Create the setup step ledger table if needed
+ */
+function ensureLedger() {
+  Process("models.setup.step.Migrate", false);
+}
 
-  const result = Process("seeds.import", "roles.csv", "__yao.role", options);
+/**
+ * Applied steps from the ledger, keyed by step id
+ */
+function loadAppliedSteps(): Record<string, AppliedStep> {
+  const rows = Process("models.setup.step.Get", {
+    select: ["id", "step", "applied_at", "duration_ms"],
+    orders: [{ column: "step", option: "asc" }],
+  }) as AppliedStep[];
+  const applied: Record<string, AppliedStep> = {};
+  for (const row of rows || []) {
+    applied[row.step] = row;
+  }
+  return applied;
+}
 
-  log.Info(
-    `Roles: Total=${result.total}, Success=${result.success}, Ignored=${result.ignore}, Failed=${result.failure}`
-  );
+/**
+ * Record a completed step in the ledger (updates the row on forced reruns)
+ */
+function recordStep(step: SetupStep, duration: number, existing?: AppliedStep) {
+  Process("models.setup.step.Save", {
+    ...(existing ? { id: existing.id } : {}),
+    step: step.id,
+    description: step.description,
+    applied_at: new Date().toISOString(),
+    duration_ms: duration,
+  });
+}
 
-  if (result.errors && result.errors.length > 0) {
-    log.Error(`Roles import errors: %v`, result.errors);
+/**
+ * Migrate one model, throws if the migration fails
+ */
+function migrateModel(model: string) {
+  try {
+    Process(`models.${model}.Migrate`, false);
+  } catch (e) {
+    throw new Exception(`Failed to migrate model ${model}: ${e}`, 500);
   }
+  log.Info(`Migrated model: ${model}`);
 }
 
 /**
- * Setup types - Import user types from seed data (skip duplicates)
- * yao run scripts.setup.SetupTypes
+ * Fail the step when any seed row failed to import (ignored duplicates are fine)
  */
-function SetupTypes() {
-  log.Info("Setting up user types...");
+function assertSeeded(name: string, result: SeedImportResult) {
+  if (result.failure > 0) {
+    throw new Exception(`${name}: ${result.failure} row(s) failed to import`, 500);
+  }
+}
 
-  const options = {
-    chunk_size: 100,
-    duplicate: "ignore",
-    mode: "each",
-  };
+// ============================================
+// Seed Data Import Functions
+// ============================================
 
-  const result = Process("seeds.import", "types.csv", "__yao.user.type", options);
+interface SeedImportResult {
+  total: number;
+  success: number;
+  ignore: number;
+  failure: number;
+  errors?: any[];
+}
 
-  log.Info(
-    `Types: Total=${result.total}, Success=${result.success}, Ignored=${result.ignore}, Failed=${result.failure}`
-  );
+interface SeedFile {
+  label: string; // Log prefix
+  file: string; // Under seeds/
+  model: string;
+  key: string; // Natural key, matches seed rows to existing rows
+  owned: string[]; // User-owned columns, Sync never overwrites them
+}
 
-  if (result.errors && result.errors.length > 0) {
-    log.Error(`Types import errors: %v`, result.errors);
-  }
+const SEEDS: Record<"roles" | "types" | "menus" | "invitations", SeedFile> = {
+  roles: {
+    label: "Roles",
+    file: "roles.csv",
+    model: "__yao.role",
+    key: "role_id",
+    owned: ["color", "icon", "max_users", "requires_approval", "auto_revoke_days", "metadata"],
+  },
+  types: {
+    label: "Types",
+    file: "types.csv",
+    model: "__yao.user.type",
+    key: "type_id",
+    owned: ["is_default", "status", "sale_type", "sale_link", "sale_price_label", "sale_description", "metadata"],
+  },
+  menus: {
+    label: "Menus",
+    file: "menus.csv",
+    model: "menu",
+    key: "menu_id",
+    owned: ["name", "icon", "parent", "sort", "status", "public", "share"],
+  },
+  invitations: {
+    label: "Invitation codes",
+    file: "invitation_codes.csv",
+    model: "__yao.invitation",
+    key: "code",
+    owned: ["status", "is_published", "description", "metadata"],
+  },
+};
+
+// Seed columns Sync never compares (surrogate keys differ between installs)
+const SEED_SKIP_COLUMNS = ["id"];
+
+/**
+ * Setup roles - Import roles from seed data (skip duplicates)
+ * yao run scripts.setup.SetupRoles
+ */
+function SetupRoles(): SeedImportResult {
+  log.Info("Setting up roles...");
+  return importSeed(SEEDS.roles);
+}
+
+/**
+ * Setup types - Import user types from seed data (skip duplicates)
+ * yao run scripts.setup.SetupTypes
+ */
+function SetupTypes(): SeedImportResult {
+  log.Info("Setting up user types...");
+  return importSeed(SEEDS.types);
 }
 
 /**
  * Setup menus - Import menus from seed data (skip duplicates)
  * yao run scripts.setup.SetupMenus
  */
-function SetupMenus() {
+function SetupMenus(): SeedImportResult {
   log.Info("Setting up menus...");
+  return importSeed(SEEDS.menus);
+}
+
+/**
+ * Setup invitation codes - Import invitation codes from seed data (skip duplicates)
+ * yao run scripts.setup.SetupInvitationCodes
+ */
+function SetupInvitationCodes(): SeedImportResult {
+  log.Info("Setting up invitation codes...");
+  return importSeed(SEEDS.invitations);
+}
 
+/**
+ * Import a seed file, skipping rows that already exist
+ */
+function importSeed(seed: SeedFile): SeedImportResult {
   const options = {
     chunk_size: 100,
     duplicate: "ignore",
     mode: "each",
   };
 
-  const result = Process("seeds.import", "menus.csv", "menu", options);
+  const result: SeedImportResult = Process("seeds.import", seed.file, seed.model, options);
 
   log.Info(
-    `Menus: Total=${result.total}, Success=${result.success}, Ignored=${result.ignore}, Failed=${result.failure}`
+    `${seed.label}: Total=${result.total}, Success=${result.success}, Ignored=${result.ignore}, Failed=${result.failure}`
   );
 
   if (result.errors && result.errors.length > 0) {
-    log.Error(`Menus import errors: %v`, result.errors);
+    log.Error(`${seed.label} import errors: %v`, result.errors);
   }
+
+  return result;
 }
 
 /**
- * Setup invitation codes - Import invitation codes from seed data (skip duplicates)
- * yao run scripts.setup.SetupInvitationCodes
+ * Sync - Bring existing installs up to date with the seed files. Missing rows are
+ * inserted and soft-deleted seed rows revived; existing rows (matched by natural
+ * key) get the changed seed columns, except user-owned columns (see SEEDS), which
+ * keep the admin's value.
+ * Changed tables are backed up first.
+ * yao run scripts.setup.Sync
+ * yao run scripts.setup.Sync '{"plan":true}'  (report the field-level diff only)
+ * yao run scripts.setup.Sync '{"seeds":["roles","types"]}'
+ * @param options plan: report only; seeds: restrict to these seed names (roles, types, menus, invitations)
  */
-function SetupInvitationCodes() {
-  log.Info("Setting up invitation codes...");
-
-  const options = {
-    chunk_size: 100,
-    duplicate: "ignore",
-    mode: "each",
-  };
+function Sync(options: SetupOptions = {}) {
+  const names = options.seeds && options.seeds.length > 0 ? options.seeds : Object.keys(SEEDS);
+  const unknown = names.filter((name) => !SEEDS[name as keyof typeof SEEDS]);
+  if (unknown.length > 0) {
+    throw new Exception(`Unknown seed(s): ${unknown.join(", ")}`, 400);
+  }
 
-  const result = Process("seeds.import", "invitation_codes.csv", "__yao.invitation", options);
+  const seeds = names.map((name) => SEEDS[name as keyof typeof SEEDS]);
+  const plan = seeds.map((seed) => planSeed(seed, "sync"));
+  logPlan(plan);
+  if (options.plan) {
+    return { status: "plan", models: plan };
+  }
 
-  log.Info(
-    `Invitation codes: Total=${result.total}, Success=${result.success}, Ignored=${result.ignore}, Failed=${result.failure}`
+  const changed = plan.filter((item) => item.insert.length > 0 || item.update.length > 0 || item.revive?.length);
+  if (changed.length === 0) {
+    log.Info("Seeds are in sync, nothing to do");
+    return { status: "skipped", models: plan };
+  }
+  backupModels(
+    "sync",
+    changed.map((item) => item.model)
   );
 
-  if (result.errors && result.errors.length > 0) {
-    log.Error(`Invitation codes import errors: %v`, result.errors);
-  }
+  log.Info("=== Starting Seed Sync ===");
+  seeds.forEach((seed, i) => {
+    const item = plan[i];
+    const revive = item.revive || [];
+    if (item.insert.length > 0) {
+      assertSeeded(seed.label, importSeed(seed));
+    }
+    if (revive.length > 0) {
+      reviveRows(seed, revive);
+    }
+    for (const key of [...revive, ...item.update]) {
+      const changes: Record<string, any> = {};
+      for (const [column, diff] of Object.entries(item.diff?.[key] || {})) {
+        if (!diff.kept) changes[column] = parseSeedValue(diff.to);
+      }
+      if (Object.keys(changes).length === 0) continue;
+      Process(`models.${seed.model}.UpdateWhere`, { wheres: [{ column: seed.key, value: key }] }, changes);
+    }
+    if (item.update.length > 0 || revive.length > 0) {
+      log.Info(`${seed.label}: Updated=${item.update.length}, Revived=${revive.length}`);
+    }
+  });
+
+  log.Info("=== Seed Sync Completed ===");
+  return { status: "success", models: plan };
+}
+
+/**
+ * Clear deleted_at on soft-deleted seed rows (raw, the model API does not reach them)
+ */
+function reviveRows(seed: SeedFile, keys: string[]) {
+  new Query("default").Run({
+    sql: {
+      stmt: `UPDATE ${quoteIdent(modelTable(seed.model))} SET ${quoteIdent("deleted_at")} = NULL WHERE ${quoteIdent(
+        seed.key
+      )} IN (${keys.map(() => "?").join(", ")})`,
+      args: keys,
+    },
+  });
 }
 
 // ============================================
@@ -220,57 +523,529 @@ function SetupInvitationCodes() {
 // ============================================
 
 /**
- * Reset roles - Clear all roles and reimport
+ * Reset roles - Back up and clear all roles, then reimport
  * yao run scripts.setup.ResetRoles
  */
 function ResetRoles() {
+  backupModels("reset-roles", [SEEDS.roles.model]);
+  resetRoles();
+}
+
+/**
+ * Reset types - Back up and clear all user types, then reimport
+ * yao run scripts.setup.ResetTypes
+ */
+function ResetTypes() {
+  backupModels("reset-types", [SEEDS.types.model]);
+  resetTypes();
+}
+
+/**
+ * Reset menus - Back up and clear all menus, then reimport
+ * yao run scripts.setup.ResetMenus
+ */
+function ResetMenus() {
+  backupModels("reset-menus", [SEEDS.menus.model]);
+  resetMenus();
+}
+
+/**
+ * Reset invitation codes - Back up and clear all invitation codes, then reimport
+ * yao run scripts.setup.ResetInvitationCodes
+ */
+function ResetInvitationCodes() {
+  backupModels("reset-invitation-codes", [SEEDS.invitations.model]);
+  resetInvitationCodes();
+}
+
+// Clear + reimport without a backup, callers take the backup first
+
+function resetRoles() {
   log.Info("Resetting roles...");
 
-  const deleted = Process("models.__yao.role.DestroyWhere", {});
+  const deleted = Process(`models.${SEEDS.roles.model}.DestroyWhere`, {});
   log.Info(`Deleted ${deleted} roles`);
 
   SetupRoles();
 }
 
-/**
- * Reset types - Clear all user types and reimport
- * yao run scripts.setup.ResetTypes
- */
-function ResetTypes() {
+function resetTypes() {
   log.Info("Resetting user types...");
 
-  const deleted = Process("models.__yao.user.type.DestroyWhere", {});
+  const deleted = Process(`models.${SEEDS.types.model}.DestroyWhere`, {});
   log.Info(`Deleted ${deleted} types`);
 
   SetupTypes();
 }
 
-/**
- * Reset menus - Clear all menus and reimport
- * yao run scripts.setup.ResetMenus
- */
-function ResetMenus() {
+function resetMenus() {
   log.Info("Resetting menus...");
 
-  const deleted = Process("models.menu.DestroyWhere", {});
+  const deleted = Process(`models.${SEEDS.menus.model}.DestroyWhere`, {});
   log.Info(`Deleted ${deleted} menus`);
 
   SetupMenus();
 }
 
-/**
- * Reset invitation codes - Clear all invitation codes and reimport
- * yao run scripts.setup.ResetInvitationCodes
- */
-function ResetInvitationCodes() {
+function resetInvitationCodes() {
   log.Info("Resetting invitation codes...");
 
-  const deleted = Process("models.__yao.invitation.DestroyWhere", {});
+  const deleted = Process(`models.${SEEDS.invitations.model}.DestroyWhere`, {});
   log.Info(`Deleted ${deleted} invitation codes`);
 
   SetupInvitationCodes();
 }
 
+// ============================================
+// Backup and Restore
+// ============================================
+
+// Snapshots are written to data/backups/setup/<timestamp>-<reason>/
+const BACKUP_ROOT = "/backups/setup";
+// Snapshot names as generated by backupModels, e.g. 2026-01-31T12-00-00-000Z-reset
+const BACKUP_SNAPSHOT_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z-[a-z0-9-]+$/;
+const BACKUP_BATCH_SIZE = 100;
+
+// Tables touched by ResetRootUser
+const ROOT_USER_MODELS = ["__yao.user", "__yao.team", "__yao.member"];
+
+interface BackupManifest {
+  snapshot: string;
+  reason: string;
+  created_at: string;
+  models: { model: string; table: string; file: string; rows: number }[];
+}
+
+/**
+ * Restore - Put a backup snapshot back. Each table in the snapshot is replaced
+ * with its backed-up rows; the current rows are backed up first, so a restore can be undone.
+ * yao run scripts.setup.Restore  (list snapshots)
+ * yao run scripts.setup.Restore 2026-10-19T08-30-00-000Z-reset
+ * yao run scripts.setup.Restore 2026-10-19T08-30-00-000Z-reset '["__yao.role"]'
+ * @param snapshot snapshot name (directory under data/backups/setup)
+ * @param models restrict the restore to these models, default all in the snapshot
+ */
+function Restore(snapshot: string = "", models: string[] = []) {
+  const fs = new FS("data");
+  if (!snapshot) {
+    const snapshots = listBackups(fs);
+    for (const item of snapshots) {
+      log.Info(`${item.snapshot}: ${item.models.map((m) => `${m.model}(${m.rows})`).join(", ")}`);
+    }
+    return snapshots;
+  }
+
+  const dir = `${BACKUP_ROOT}/${snapshot}`;
+  if (!BACKUP_SNAPSHOT_PATTERN.test(snapshot) || !fs.Exists(`${dir}/manifest.json`)) {
+    throw new Exception(`Backup snapshot not found: ${snapshot}`, 404);
+  }
+  const manifest: BackupManifest = JSON.parse(fs.ReadFile(`${dir}/manifest.json`));
+  // Data files are always <model>.json next to the manifest
+  const foreign = manifest.models.filter((m) => m.file !== `${m.model}.json` || m.model.includes("/"));
+  if (foreign.length > 0) {
+    throw new Exception(`Invalid file in snapshot ${snapshot}: ${foreign.map((m) => m.file).join(", ")}`, 400);
+  }
+  const entries = models.length > 0 ? manifest.models.filter((m) => models.includes(m.model)) : manifest.models;
+  const unknown = models.filter((model) => !manifest.models.some((m) => m.model === model));
+  if (unknown.length > 0) {
+    throw new Exception(`Not in snapshot ${snapshot}: ${unknown.join(", ")}`, 400);
+  }
+
+  log.Info(`=== Restoring ${snapshot} ===`);
+  const undo = backupModels(
+    "restore",
+    entries.map((entry) => entry.model)
+  );
+
+  const qb = new Query("default");
+  for (const entry of entries) {
+    const rows: Record<string, any>[] = JSON.parse(fs.ReadFile(`${dir}/${entry.file}`));
+    qb.Run({ sql: { stmt: `DELETE FROM ${quoteIdent(entry.table)}` } });
+    for (let i = 0; i < rows.length; i += BACKUP_BATCH_SIZE) {
+      insertRows(qb, entry.table, rows.slice(i, i + BACKUP_BATCH_SIZE));
+    }
+    log.Info(`Restored ${rows.length} row(s) into ${entry.model}`);
+  }
+
+  log.Info(`=== Restore Completed (previous state saved as ${undo}) ===`);
+  return { snapshot, restored: entries.map((entry) => entry.model), undo };
+}
+
+/**
+ * Export the tables of the given models to a timestamped snapshot under data/.
+ * Throws when any table cannot be read, so the caller never deletes unsaved data.
+ * @returns snapshot name, pass it to Restore
+ */
+function backupModels(reason: string, models: string[]): string {
+  const fs = new FS("data");
+  const createdAt = new Date().toISOString();
+  const snapshot = `${createdAt.replace(/[:.]/g, "-")}-${reason}`;
+  const dir = `${BACKUP_ROOT}/${snapshot}`;
+  fs.MkdirAll(dir, 0o700);
+
+  const manifest: BackupManifest = { snapshot, reason, created_at: createdAt, models: [] };
+  const qb = new Query("default");
+  for (const model of models) {
+    let table: string;
+    let rows: Record<string, any>[];
+    try {
+      // Raw rows, so soft-deleted rows and hashed columns survive the round trip
+      table = modelTable(model);
+      rows = qb.Get({ sql: { stmt: `SELECT * FROM ${quoteIdent(table)}` } }) || [];
+    } catch (e) {
+      throw new Exception(`Backup of ${model} failed, nothing was deleted: ${e}`, 500);
+    }
+    const file = `${model}.json`;
+    fs.WriteFile(`${dir}/${file}`, JSON.stringify(rows, null, 2), 0o600);
+    manifest.models.push({ model, table, file, rows: rows.length });
+  }
+  fs.WriteFile(`${dir}/manifest.json`, JSON.stringify(manifest, null, 2), 0o600);
+
+  log.Info(`Backup written: ${fs.Abs(dir)} (restore with 'yao run scripts.setup.Restore ${snapshot}')`);
+  return snapshot;
+}
+
+/**
+ * Backup snapshots, newest first
+ */
+function listBackups(fs: FS): BackupManifest[] {
+  if (!fs.Exists(BACKUP_ROOT)) return [];
+  return fs
+    .ReadDir(BACKUP_ROOT)
+    .map((path) => `${BACKUP_ROOT}/${fs.BaseName(path)}/manifest.json`)
+    .filter((path) => fs.Exists(path))
+    .map((path) => JSON.parse(fs.ReadFile(path)) as BackupManifest)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+/**
+ * Table name of a model
+ */
+function modelTable(model: string): string {
+  const meta = Process(`models.${model}.Read`);
+  if (!meta?.table?.name) {
+    throw new Exception(`Model ${model} has no table`, 500);
+  }
+  return meta.table.name;
+}
+
+/**
+ * Insert rows with one multi-row statement
+ */
+function insertRows(qb: Query, table: string, rows: Record<string, any>[]) {
+  if (rows.length === 0) return;
+  const columns = Object.keys(rows[0]);
+  const placeholders = `(${columns.map(() => "?").join(", ")})`;
+  const args: any[] = [];
+  for (const row of rows) {
+    for (const column of columns) {
+      const value = row[column];
+      args.push(value !== null && typeof value === "object" ? JSON.stringify(value) : value);
+    }
+  }
+  qb.Run({
+    sql: {
+      stmt: `INSERT INTO ${quoteIdent(table)} (${columns.map(quoteIdent).join(", ")}) VALUES ${rows
+        .map(() => placeholders)
+        .join(", ")}`,
+      args,
+    },
+  });
+}
+
+/**
+ * Quote a table or column name (several seeded columns are reserved words, e.g. schema)
+ */
+function quoteIdent(name: string): string {
+  return readEnv("YAO_DB_DRIVER") === "postgres" ? `"${name}"` : `\`${name}\``;
+}
+
+// ============================================
+// Setup Plan (Dry Run)
+// ============================================
+
+interface SetupOptions {
+  plan?: boolean; // Report what would change, write nothing
+  confirm?: string; // Reset confirmation token, printed by the Reset plan
+  seeds?: string[]; // Sync only: seed names, see SEEDS
+}
+
+// ignore: insert missing rows (Init); sync: also update changed rows (Sync); clear: destroy and reimport (Reset)
+type SeedMode = "ignore" | "sync" | "clear";
+
+interface FieldDiff {
+  from: any;
+  to: string; // Seed value, as written in the CSV
+  kept?: boolean; // User-owned column, not overwritten
+}
+
+interface ModelPlan {
+  file?: string; // Seed file the rows come from
+  model: string;
+  key: string;
+  insert: string[];
+  ignore: string[];
+  update: string[];
+  destroy: string[];
+  revive?: string[]; // Sync: soft-deleted rows brought back (Get never returns them)
+  diff?: Record<string, Record<string, FieldDiff>>; // Sync: changed fields per key
+}
+
+/**
+ * Plan a seed import: rows missing from the table are inserted, the rest ignored.
+ * Sync also compares existing rows field by field and updates the changed ones,
+ * and revives soft-deleted seed rows (the import alone would skip them).
+ * Clear destroys every existing row and inserts every seed row (Reset).
+ */
+function planSeed(seed: SeedFile, mode: SeedMode): ModelPlan {
+  const plan: ModelPlan = {
+    file: seed.file,
+    model: seed.model,
+    key: seed.key,
+    insert: [],
+    ignore: [],
+    update: [],
+    destroy: [],
+  };
+  const rows = readSeedRows(seed);
+  const keys = rows.map((row) => String(row[seed.key]));
+
+  if (mode === "clear") {
+    plan.destroy = existingKeys(seed.model, seed.key);
+    plan.insert = keys;
+    return plan;
+  }
+
+  const columns = rows.length > 0 ? Object.keys(rows[0]).filter((c) => !SEED_SKIP_COLUMNS.includes(c)) : [seed.key];
+  const existing: Record<string, Record<string, any>> = {};
+  for (const row of existingRows(seed.model, mode === "sync" ? columns : [seed.key])) {
+    existing[String(row[seed.key])] = row;
+  }
+  // Soft-deleted rows still hold their key, so the import would ignore them
+  const trashed = trashedRows(seed.model, seed.key);
+  const revive: string[] = [];
+  if (mode === "sync") plan.revive = revive;
+
+  rows.forEach((row, i) => {
+    const key = keys[i];
+    let current = existing[key];
+    const revived = !current && !!trashed[key];
+    if (revived) {
+      if (mode !== "sync") {
+        plan.ignore.push(key);
+        return;
+      }
+      revive.push(key);
+      current = trashed[key];
+    }
+    if (!current) {
+      plan.insert.push(key);
+      return;
+    }
+    const diff = mode === "sync" ? diffSeedRow(seed, columns, row, current) : {};
+    if (Object.keys(diff).length > 0) {
+      plan.diff = { ...plan.diff, [key]: diff };
+    }
+    if (revived) return;
+    (Object.values(diff).some((field) => !field.kept) ? plan.update : plan.ignore).push(key);
+  });
+  return plan;
+}
+
+/**
+ * Fields where the seed row differs from the stored row
+ */
+function diffSeedRow(
+  seed: SeedFile,
+  columns: string[],
+  row: Record<string, string>,
+  current: Record<string, any>
+): Record<string, FieldDiff> {
+  const diff: Record<string, FieldDiff> = {};
+  for (const column of columns) {
+    if (column === seed.key || comparableValue(row[column]) === comparableValue(current[column])) continue;
+    diff[column] = { from: current[column], to: row[column] };
+    if (seed.owned.includes(column)) diff[column].kept = true;
+  }
+  return diff;
+}
+
+/**
+ * Normalize a CSV or database value for comparison: empty and null match,
+ * booleans match 1/0, JSON compares by content regardless of key order
+ */
+function comparableValue(value: any): string {
+  if (value === null || value === undefined || value === "") return "";
+  if (value === true || value === "true") return "1";
+  if (value === false || value === "false") return "0";
+  if (typeof value === "string") {
+    const text = value.trim();
+    if (!/^[\[{]/.test(text)) return text;
+    try {
+      value = JSON.parse(text);
+    } catch (e) {
+      return text;
+    }
+  }
+  if (typeof value === "object") return canonicalJSON(value);
+  return String(value);
+}
+
+/**
+ * JSON with object keys sorted
+ */
+function canonicalJSON(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJSON).join(",")}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJSON(value[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Convert a CSV value for a model write: empty is null, JSON is parsed, booleans are typed
+ */
+function parseSeedValue(value: string): any {
+  if (value === "") return null;
+  if (value === "true" || value === "false") return value === "true";
+  if (/^[\[{]/.test(value.trim())) {
+    try {
+      return JSON.parse(value);
+    } catch (e) {
+      return value;
+    }
+  }
+  return value;
+}
+
+/**
+ * Plan the root user step. Reset also destroys the user's teams and memberships.
+ */
+function planRootUser(email: string, reset: boolean): ModelPlan[] {
+  const users = existingRows("__yao.user", ["user_id", "email"], [{ column: "email", value: email }]);
+  const user: ModelPlan = { model: "__yao.user", key: "email", insert: [], ignore: [], update: [], destroy: [] };
+  if (!reset) {
+    (users.length > 0 ? user.ignore : user.insert).push(email);
+    return [user];
+  }
+
+  user.destroy = users.map((row) => row.email);
+  user.insert = [email];
+  const team: ModelPlan = { model: "__yao.team", key: "team_id", insert: [], ignore: [], update: [], destroy: [] };
+  const member: ModelPlan = {
+    model: "__yao.member",
+    key: "member_id",
+    insert: [],
+    ignore: [],
+    update: [],
+    destroy: [],
+  };
+  for (const row of users) {
+    const owned = existingRows("__yao.team", ["team_id"], [{ column: "owner_id", value: row.user_id }]);
+    team.destroy.push(...owned.map((t) => String(t.team_id)));
+    const members = existingRows("__yao.member", ["member_id"], [{ column: "user_id", value: row.user_id }]);
+    member.destroy.push(...members.map((m) => String(m.member_id)));
+  }
+  return [user, team, member];
+}
+
+/**
+ * Everything Reset would destroy and reimport
+ */
+function planReset(credentials: RootCredentialsInput): ModelPlan[] {
+  return [
+    ...[SEEDS.roles, SEEDS.types, SEEDS.menus, SEEDS.invitations].map((seed) => planSeed(seed, "clear")),
+    ...planRootUser(credentials.email || resolveRootEmail(), true),
+  ];
+}
+
+/**
+ * Confirmation token for a Reset plan. It changes with the data, so a token
+ * only confirms the plan it was printed with.
+ */
+function resetConfirmToken(plan: ModelPlan[]): string {
+  // FNV-1a, enough to tell plans apart
+  const text = JSON.stringify(plan);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `reset-${(hash >>> 0).toString(16).padStart(8, "0")}`;
+}
+
+/**
+ * Log a plan, one line per model
+ */
+function logPlan(plan: ModelPlan[]) {
+  for (const item of plan) {
+    const source = item.file ? `${item.file} -> ${item.model}` : item.model;
+    const counts = `insert=${item.insert.length}, ignore=${item.ignore.length}, update=${item.update.length}`;
+    const revive = item.revive ? `, revive=${item.revive.length}` : "";
+    log.Info(`[plan] ${source}: ${counts}, destroy=${item.destroy.length}${revive}`);
+    for (const [key, fields] of Object.entries(item.diff || {})) {
+      for (const [column, diff] of Object.entries(fields)) {
+        const note = diff.kept ? " (user-owned, kept)" : "";
+        log.Info(
+          `[plan]   ${item.key}=${key} ${column}: ${JSON.stringify(diff.from)} -> ${JSON.stringify(diff.to)}${note}`
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Key values of every row in a model, empty if the table does not exist yet
+ */
+function existingKeys(model: string, key: string): string[] {
+  return existingRows(model, [key]).map((row) => String(row[key]));
+}
+
+/**
+ * Read rows without writing, empty if the table does not exist yet
+ */
+function existingRows(model: string, select: string[], wheres: Record<string, any>[] = []): Record<string, any>[] {
+  try {
+    return Process(`models.${model}.Get`, { select, wheres }) || [];
+  } catch (e) {
+    return [];
+  }
+}
+
+/**
+ * Soft-deleted rows of a model by key value, empty if the model has no soft deletes
+ */
+function trashedRows(model: string, key: string): Record<string, Record<string, any>> {
+  const rows: Record<string, Record<string, any>> = {};
+  try {
+    if (!Process(`models.${model}.Read`)?.option?.soft_deletes) return rows;
+    const stmt = `SELECT * FROM ${quoteIdent(modelTable(model))} WHERE ${quoteIdent("deleted_at")} IS NOT NULL`;
+    for (const row of new Query("default").Get({ sql: { stmt } }) || []) {
+      rows[String(row[key])] = row;
+    }
+  } catch (e) {
+    // Table does not exist yet
+  }
+  return rows;
+}
+
+/**
+ * Read a seed CSV file into records keyed by header
+ */
+function readSeedRows(seed: SeedFile): Record<string, string>[] {
+  const text: string = new FS("app").ReadFile(`/seeds/${seed.file}`);
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  return rows.map((row) => {
+    const record: Record<string, string> = {};
+    header.forEach((column, i) => (record[column] = row[i] ?? ""));
+    return record;
+  });
+}
+
 // ============================================
 // Root User Management
 // ============================================
@@ -280,14 +1055,14 @@ function ResetInvitationCodes() {
  */
 function generateId(): string {
   const timestamp = Date.now().toString().slice(-8);
-  const random = Math.floor(Math.random() * 10000).toString().padStart(4, "0");
+  const random = Math.floor(Math.random() * 10000)
+    .toString()
+    .padStart(4, "0");
   return timestamp + random;
 }
 
-const ROOT_USER_PASSWORD = "Yao123++";
-
 const ROOT_USER = {
-  email: "root@yaoagents.com",
+  email: "root@yaoagents.com", // Default, override with YAO_ROOT_EMAIL or the email argument
   name: "Administrator",
   status: "active",
   role_id: "system:root",
@@ -305,24 +1080,117 @@ const ROOT_TEAM = {
   role_id: "system:root", // Team role (same as root user)
 };
 
+// Generated root passwords are written here (data directory, owner read/write only)
+const ROOT_CREDENTIALS_FILE = "/root-credentials.txt";
+const ROOT_PASSWORD_MIN_LENGTH = 12;
+const ROOT_PASSWORD_LENGTH = 24;
+
+interface RootCredentialsInput {
+  email?: string;
+  password?: string;
+}
+
+interface RootCredentials {
+  email: string;
+  password: string;
+  source: "argument" | "env" | "generated";
+  file?: string; // Set when the password was generated and written to a file
+}
+
 /**
- * Setup root user with team - Create root user, team and membership if not exists
- * yao run scripts.setup.SetupRootUser
+ * Resolve root credentials: CLI argument, then env (YAO_ROOT_EMAIL / YAO_ROOT_PASSWORD),
+ * otherwise a random password, written to data/root-credentials.txt by createRootUser
  */
-function SetupRootUser() {
-  log.Info("Setting up root user...");
+function resolveRootCredentials(input: RootCredentialsInput = {}): RootCredentials {
+  const email = input.email || resolveRootEmail();
+
+  let password = input.password || "";
+  let source: RootCredentials["source"] = "argument";
+  if (!password) {
+    password = readEnv("YAO_ROOT_PASSWORD");
+    source = "env";
+  }
+  if (password) {
+    if (password.length < ROOT_PASSWORD_MIN_LENGTH) {
+      throw new Exception(`Root password must be at least ${ROOT_PASSWORD_MIN_LENGTH} characters`, 400);
+    }
+    return { email, password, source };
+  }
 
-  // Check if root user already exists
-  const existing = Process("models.__yao.user.Get", {
-    wheres: [{ column: "email", value: ROOT_USER.email }],
-    limit: 1,
-  });
+  // Kept in memory; createRootUser writes the file once the user exists
+  return { email, password: generatePassword(ROOT_PASSWORD_LENGTH), source: "generated" };
+}
 
-  if (existing && existing.length > 0) {
-    log.Info(`Root user already exists: ${ROOT_USER.email}`);
-    return;
+/**
+ * Write a generated root password to data/root-credentials.txt (mode 0600) and set root.file
+ */
+function writeRootCredentials(root: RootCredentials) {
+  const fs = new FS("data");
+  fs.WriteFile(
+    ROOT_CREDENTIALS_FILE,
+    `# Root user credentials, generated ${new Date().toISOString()}\n` +
+      `# Change the password at first login, then delete this file.\n` +
+      `# Until then only APIs guarded by scripts.auth.PasswordGuard refuse this user.\n` +
+      `email=${root.email}\npassword=${root.password}\n`,
+    0o600
+  );
+  root.file = fs.Abs(ROOT_CREDENTIALS_FILE);
+}
+
+/**
+ * Root email from YAO_ROOT_EMAIL, or the default
+ */
+function resolveRootEmail(): string {
+  return readEnv("YAO_ROOT_EMAIL") || ROOT_USER.email;
+}
+
+/**
+ * Where the root password can be found, for console output (never the password itself)
+ */
+function describePasswordSource(root: RootCredentials | null): string {
+  if (!root) return "unchanged (root user already exists)";
+  if (root.source === "generated") return `generated, see ${root.file}`;
+  if (root.source === "env") return "from YAO_ROOT_PASSWORD";
+  return "as supplied";
+}
+
+/**
+ * Generate a random password with upper/lower case letters, digits and symbols
+ * Randomness comes from UUID v4 (crypto/rand), 16 bits per draw
+ */
+function generatePassword(length: number): string {
+  const classes = ["ABCDEFGHJKLMNPQRSTUVWXYZ", "abcdefghijkmnopqrstuvwxyz", "23456789", "!@#$%^&*-_=+"];
+  const alphabet = classes.join("");
+
+  // Two draws per character (pick + shuffle); skip the fixed version and variant nibbles
+  let hex = "";
+  while (hex.length < length * 8) {
+    const uuid = String(Process("utils.str.UUID")).replace(/-/g, "");
+    hex += uuid.slice(0, 12) + uuid.slice(13, 16) + uuid.slice(17);
+  }
+  const random = (i: number) => parseInt(hex.substr(i * 4, 4), 16);
+
+  const chars: string[] = [];
+  for (let i = 0; i < length; i++) {
+    // The first characters guarantee one of each class
+    const pool = i < classes.length ? classes[i] : alphabet;
+    chars.push(pool[random(i) % pool.length]);
   }
 
+  // Shuffle so the guaranteed classes are not always in front
+  for (let i = chars.length - 1; i > 0; i--) {
+    const j = random(length - 1 - i + length) % (i + 1);
+    [chars[i], chars[j]] = [chars[j], chars[i]];
+  }
+  return chars.join("");
+}
+
+/**
+ * Create the root user, team and membership, then write a generated password to its file
+ * The user is flagged so APIs guarded by scripts.auth.PasswordGuard refuse it until the password
+ * is changed. Login itself does not check the flag, see scripts/auth.ts for the guarded APIs.
+ */
+function createRootUser(root: RootCredentials) {
   // Generate IDs
   const userId = generateId();
   const teamId = generateId();
@@ -332,18 +1200,25 @@ function SetupRootUser() {
   // password_hash field has "crypt": "PASSWORD", model layer auto-hashes with bcrypt
   const userData = {
     ...ROOT_USER,
+    email: root.email,
     user_id: userId,
-    password_hash: ROOT_USER_PASSWORD,
+    password_hash: root.password,
   };
   const userPK = Process("models.__yao.user.Save", userData);
-  log.Info(`Root user created: ${ROOT_USER.email} (ID: ${userPK}, user_id: ${userId})`);
+  log.Info(`Root user created: ${root.email} (ID: ${userPK}, user_id: ${userId})`);
+
+  // Enforced by scripts.auth.PasswordGuard until the stored hash changes
+  const saved = Process("models.__yao.user.Find", userPK, { select: ["password_hash"] });
+  Process("models.__yao.user.Update", userPK, {
+    metadata: { force_password_change: true, password_fingerprint: passwordFingerprint(saved.password_hash) },
+  });
 
   // Create root team
   const teamData = {
     ...ROOT_TEAM,
     team_id: teamId,
     owner_id: userId,
-    contact_email: ROOT_USER.email,
+    contact_email: root.email,
   };
   const teamPK = Process("models.__yao.team.Save", teamData);
   log.Info(`Root team created: ${ROOT_TEAM.name} (ID: ${teamPK}, team_id: ${teamId})`);
@@ -355,7 +1230,7 @@ function SetupRootUser() {
     user_id: userId,
     member_type: "user",
     display_name: ROOT_USER.name,
-    email: ROOT_USER.email,
+    email: root.email,
     role_id: "team:owner",
     is_owner: true,
     status: "active",
@@ -363,6 +1238,38 @@ function SetupRootUser() {
   };
   const memberPK = Process("models.__yao.member.Save", memberData);
   log.Info(`Root user added to team as owner (ID: ${memberPK}, member_id: ${memberId})`);
+
+  // Only now, so a failed setup or reset never leaves a password that matches no user
+  if (root.source === "generated") {
+    writeRootCredentials(root);
+  }
+}
+
+/**
+ * Setup root user with team - Create root user, team and membership if not exists
+ * yao run scripts.setup.SetupRootUser
+ * yao run scripts.setup.SetupRootUser '{"email":"admin@example.com"}'
+ * @param credentials root email/password, see resolveRootCredentials
+ * @returns The credentials used, null if the root user already existed
+ */
+function SetupRootUser(credentials: RootCredentialsInput = {}): RootCredentials | null {
+  log.Info("Setting up root user...");
+
+  // Check if root user already exists
+  const email = credentials.email || resolveRootEmail();
+  const existing = Process("models.__yao.user.Get", {
+    wheres: [{ column: "email", value: email }],
+    limit: 1,
+  });
+
+  if (existing && existing.length > 0) {
+    log.Info(`Root user already exists: ${email}`);
+    return null;
+  }
+
+  const root = resolveRootCredentials({ ...credentials, email });
+  createRootUser(root);
+  return root;
 }
 
 // ============================================
@@ -387,15 +1294,27 @@ function BuildSUI() {
 }
 
 /**
- * Reset root user - Delete and recreate root user, team and membership
+ * Reset root user - Back up, then delete and recreate root user, team and membership
+ * The new password follows the same rules as Init (argument, env, or generated file)
  * yao run scripts.setup.ResetRootUser
+ * @param credentials root email/password, see resolveRootCredentials
  */
-function ResetRootUser() {
+function ResetRootUser(credentials: RootCredentialsInput = {}) {
   log.Info("Resetting root user...");
 
+  // Resolve credentials first so a rejected password leaves the old root user in place
+  const root = resolveRootCredentials(credentials);
+  backupModels("reset-root-user", ROOT_USER_MODELS);
+  return replaceRootUser(root);
+}
+
+/**
+ * Delete the root user with its teams and memberships, then create it again
+ */
+function replaceRootUser(root: RootCredentials) {
   // Get existing root user to find user_id for cleanup
   const existingUser = Process("models.__yao.user.Get", {
-    wheres: [{ column: "email", value: ROOT_USER.email }],
+    wheres: [{ column: "email", value: root.email }],
     limit: 1,
   });
 
@@ -417,48 +1336,11 @@ function ResetRootUser() {
 
   // Delete existing root user
   const deletedUsers = Process("models.__yao.user.DestroyWhere", {
-    wheres: [{ column: "email", value: ROOT_USER.email }],
+    wheres: [{ column: "email", value: root.email }],
   });
   log.Info(`Deleted ${deletedUsers} root user(s)`);
 
-  // Generate new IDs
-  const userId = generateId();
-  const teamId = generateId();
-  const memberId = generateId();
-
-  // Create new root user with generated user_id
-  // password_hash field has "crypt": "PASSWORD", model layer auto-hashes with bcrypt
-  const userData = {
-    ...ROOT_USER,
-    user_id: userId,
-    password_hash: ROOT_USER_PASSWORD,
-  };
-  const userPK = Process("models.__yao.user.Save", userData);
-  log.Info(`Root user created: ${ROOT_USER.email} (ID: ${userPK}, user_id: ${userId})`);
-
-  // Create root team
-  const teamData = {
-    ...ROOT_TEAM,
-    team_id: teamId,
-    owner_id: userId,
-    contact_email: ROOT_USER.email,
-  };
-  const teamPK = Process("models.__yao.team.Save", teamData);
-  log.Info(`Root team created: ${ROOT_TEAM.name} (ID: ${teamPK}, team_id: ${teamId})`);
-
-  // Add root user as team owner member
-  const memberData = {
-    member_id: memberId,
-    team_id: teamId,
-    user_id: userId,
-    member_type: "user",
-    display_name: ROOT_USER.name,
-    email: ROOT_USER.email,
-    role_id: "team:owner",
-    is_owner: true,
-    status: "active",
-    joined_at: new Date().toISOString(),
-  };
-  const memberPK = Process("models.__yao.member.Save", memberData);
-  log.Info(`Root user added to team as owner (ID: ${memberPK}, member_id: ${memberId})`);
+  createRootUser(root);
+  log.Info(`Root password: ${describePasswordSource(root)}`);
+  return root.source === "generated" ? { email: root.email, file: root.file } : { email: root.email };
 }
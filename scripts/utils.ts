@@ -0,0 +1,61 @@
+/**
+ * Shared Script Helpers
+ * Small helpers used by several scripts (scripts/menu.ts, scripts/setup.ts)
+ */
+
+import { Process } from "@yao/runtime";
+
+/**
+ * Read an environment variable, empty string if unset
+ */
+export function readEnv(name: string): string {
+  try {
+    return Process("utils.env.Get", name) || "";
+  } catch (e) {
+    return "";
+  }
+}
+
+/**
+ * Minimal RFC 4180 CSV parser: quoted fields, "" escapes, CRLF, newlines inside quotes
+ * Blank lines are dropped.
+ */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.length > 1 || r[0] !== "");
+}
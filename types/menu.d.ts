@@ -0,0 +1,107 @@
+/**
+ * Menu API contract
+ * Generated by `yao run scripts.menu.schema.Generate` from scripts/menu/schema.ts, do not edit.
+ * JSON Schema: types/menu.schema.json
+ */
+
+/** Localized text: { "en": "Dashboard", "zh-cn": "数据看板" } */
+export type MenuI18n = Record<string, string>;
+
+/** Icon name, or icon name with size */
+export type MenuIcon = string | { name: string; size?: number };
+
+/** Menu display conditions, evaluated per request */
+export interface MenuConditions {
+  /** Env var (YAO_ENV or YAO_MENU_*) must equal (one of) the value(s) */
+  env?: Record<string, string | string[]>;
+  /** App or team feature flags that must all be on */
+  flags?: string[];
+  /** Show from this time (inclusive) */
+  from?: string;
+  /** Show until this time (exclusive) */
+  until?: string;
+  /** Caller's user type (__yao.user.type) must be one of these */
+  user_types?: string[];
+}
+
+/** Typed link target stored on a menu record */
+export interface MenuTarget {
+  kind: "route" | "url" | "assistant" | "sui";
+  /** route: dashboard route, e.g. "/mission-control" */
+  route?: string;
+  /** url: absolute http(s) URL */
+  url?: string;
+  /** url: where to open it (default _blank) */
+  target?: "_self" | "_blank";
+  /** assistant: folder under assistants/, e.g. "yao" */
+  assistant_id?: string;
+  /** sui: page route of suis/web.sui.yao, e.g. "/index" */
+  page?: string;
+}
+
+/** Menu item structure (database) */
+export interface MenuRecord {
+  /** Auto-increment primary key */
+  id?: number;
+  /** Unique string identifier */
+  menu_id: string;
+  /** Parent menu_id, null for root items */
+  parent?: string | null;
+  name: MenuI18n;
+  description?: MenuI18n | null;
+  icon?: MenuIcon | null;
+  /** Navigation path or URL, used when target is not set */
+  path?: string | null;
+  target?: MenuTarget | null;
+  type: "items" | "setting" | "quick";
+  sort?: number;
+  status?: "enabled" | "disabled";
+  public?: boolean;
+  share?: "private" | "team";
+  /** Managed by seeds/menus.csv */
+  system?: boolean;
+  /** Any of these roles may see the menu */
+  roles?: string[] | null;
+  /** All of these features are required */
+  features?: string[] | null;
+  /** Display conditions, all must hold */
+  conditions?: MenuConditions | null;
+  /** Additional configuration, e.g. badge source and tooltip */
+  extra?: Record<string, any> | null;
+  /** Permission field: creator user_id */
+  __yao_created_by?: string | number;
+  /** Permission field: owning team_id */
+  __yao_team_id?: string | number;
+}
+
+/** Resolved link descriptor in menu output */
+export interface MenuLink {
+  kind: "route" | "url" | "assistant" | "sui";
+  /** route, url and sui links */
+  href?: string;
+  target?: "_self" | "_blank";
+  /** assistant links open a chat with this assistant */
+  assistant_id?: string;
+}
+
+/** Menu item structure (output with children) */
+export interface MenuItem {
+  name: string;
+  icon?: MenuIcon;
+  path?: string;
+  link?: MenuLink;
+  description?: string;
+  tooltip?: string;
+  sort?: number;
+  badge?: string | number | Record<string, any>;
+  children?: MenuItem[];
+}
+
+/** Menu output structure (matches flow output) */
+export interface MenuOutput {
+  items: MenuItem[];
+  setting: MenuItem[];
+  quick: MenuItem[];
+  /** Content hash, pass to Changes() to detect updates */
+  version?: string;
+}